@@ -0,0 +1,30 @@
+import type { CSSProperties, InjectionKey, Ref } from "vue";
+import type { ChartResizeNotifier } from "../Echarts/resize";
+import type { DashboardLayoutItem } from "./layout";
+
+/**
+ * DashboardGrid 提供给 DashboardPanel 的上下文
+ */
+export interface DashboardGridContext {
+	item: (id: string) => DashboardLayoutItem | undefined;
+	/**
+	 * 面板的定位样式
+	 */
+	style: (id: string) => CSSProperties;
+	draggable: Ref<boolean>;
+	resizable: Ref<boolean>;
+	/**
+	 * 正在拖拽或调整尺寸的面板
+	 */
+	activeId: Ref<string | undefined>;
+	startDrag: (id: string, event: PointerEvent) => void;
+	startResize: (id: string, event: PointerEvent) => void;
+	/**
+	 * 注册面板的尺寸变化通知，返回注销函数
+	 */
+	register: (id: string, notifier: ChartResizeNotifier) => () => void;
+}
+
+export const DASHBOARD_GRID_KEY: InjectionKey<DashboardGridContext> = Symbol(
+	"lazyhand-dashboard-grid",
+);
@@ -0,0 +1,19 @@
+export { default as DashboardGrid } from "./DashboardGrid.vue";
+export { default as DashboardPanel } from "./DashboardPanel.vue";
+
+export {
+	collides,
+	compactLayout,
+	getBreakpoint,
+	layoutRows,
+	moveItem,
+	resizeItem,
+	resolveLayout,
+	sortLayout,
+} from "./layout";
+export type {
+	DashboardBreakpoints,
+	DashboardLayout,
+	DashboardLayoutItem,
+	DashboardLayouts,
+} from "./layout";
@@ -0,0 +1,239 @@
+import { clamp } from "../../Echarts/utils";
+
+/**
+ * 面板在栅格中的位置与尺寸，单位为列与行
+ */
+export interface DashboardLayoutItem {
+	/**
+	 * 面板标识，对应 DashboardPanel 的 id
+	 */
+	i: string;
+	x: number;
+	y: number;
+	w: number;
+	h: number;
+	minW?: number;
+	minH?: number;
+	maxW?: number;
+	maxH?: number;
+	/**
+	 * 固定面板不能拖拽或调整尺寸，也不会被其他面板推开
+	 */
+	static?: boolean;
+}
+
+export type DashboardLayout = DashboardLayoutItem[];
+
+/**
+ * 各断点下的布局，键为断点名称
+ */
+export type DashboardLayouts = Partial<Record<string, DashboardLayout>>;
+
+/**
+ * 断点，键为断点名称，值为容器的最小宽度(px)
+ */
+export type DashboardBreakpoints = Record<string, number>;
+
+function cloneLayout(layout: readonly DashboardLayoutItem[]): DashboardLayout {
+	return layout.map((item) => ({ ...item }));
+}
+
+/**
+ * 判断两个面板是否重叠
+ */
+export function collides(a: DashboardLayoutItem, b: DashboardLayoutItem) {
+	return (
+		a.i !== b.i &&
+		a.x < b.x + b.w &&
+		b.x < a.x + a.w &&
+		a.y < b.y + b.h &&
+		b.y < a.y + a.h
+	);
+}
+
+/**
+ * 按从上到下、从左到右的顺序排列面板
+ */
+export function sortLayout(
+	layout: readonly DashboardLayoutItem[],
+): DashboardLayout {
+	return [...layout].sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * 布局的总行数
+ */
+export function layoutRows(layout: readonly DashboardLayoutItem[]): number {
+	return layout.reduce((max, item) => Math.max(max, item.y + item.h), 0);
+}
+
+/**
+ * 将面板尺寸限制在最小、最大尺寸与列数之内，并保证面板不超出右边界
+ */
+function fitItem(item: DashboardLayoutItem, cols: number): void {
+	item.w = clamp(
+		Math.round(item.w),
+		Math.max(1, item.minW ?? 1),
+		Math.min(cols, item.maxW ?? cols),
+	);
+	item.h = clamp(
+		Math.round(item.h),
+		Math.max(1, item.minH ?? 1),
+		item.maxH ?? Number.POSITIVE_INFINITY,
+	);
+	item.x = clamp(Math.round(item.x), 0, cols - item.w);
+	item.y = Math.max(0, Math.round(item.y));
+}
+
+/**
+ * 向上压缩布局，面板在不重叠的前提下尽量靠上，固定面板保持不动
+ * @param layout - 布局
+ * @param cols - 列数
+ * @returns 新的布局，顺序与传入的布局一致
+ */
+export function compactLayout(
+	layout: readonly DashboardLayoutItem[],
+	cols: number,
+): DashboardLayout {
+	const result = cloneLayout(layout);
+	for (const item of result) fitItem(item, cols);
+	const placed = result.filter((item) => item.static);
+	for (const item of sortLayout(result)) {
+		if (item.static) continue;
+		item.y = 0;
+		let blocker = placed.find((other) => collides(item, other));
+		while (blocker) {
+			item.y = blocker.y + blocker.h;
+			blocker = placed.find((other) => collides(item, other));
+		}
+		placed.push(item);
+	}
+	return result;
+}
+
+/**
+ * 将与 item 重叠的面板依次推到其下方
+ * @param origin - 面板移动前的位置，向下移动时被覆盖的面板优先移到该位置，使两者交换
+ */
+function resolveCollisions(
+	layout: DashboardLayout,
+	item: DashboardLayoutItem,
+	origin?: DashboardLayoutItem,
+): void {
+	for (const other of sortLayout(layout)) {
+		if (other.static || !collides(item, other)) continue;
+		if (origin && item.y > origin.y) {
+			const swapped = { ...other, y: origin.y };
+			if (!layout.some((entry) => collides(swapped, entry))) {
+				other.y = origin.y;
+				continue;
+			}
+		}
+		other.y = item.y + item.h;
+		resolveCollisions(layout, other);
+	}
+}
+
+function updateItem(
+	layout: readonly DashboardLayoutItem[],
+	id: string,
+	patch: Partial<DashboardLayoutItem>,
+	cols: number,
+): DashboardLayout {
+	const result = cloneLayout(layout);
+	const item = result.find((entry) => entry.i === id);
+	if (!item || item.static) return result;
+	const origin = { ...item };
+	Object.assign(item, patch);
+	fitItem(item, cols);
+	// 不能推开固定面板，放弃这次变更
+	if (result.some((other) => other.static && collides(item, other))) {
+		return cloneLayout(layout);
+	}
+	resolveCollisions(result, item, "y" in patch ? origin : undefined);
+	return compactLayout(result, cols);
+}
+
+/**
+ * 移动面板，重叠的面板被推到下方，之后向上压缩布局
+ * @param layout - 布局
+ * @param id - 面板标识
+ * @param x - 目标列
+ * @param y - 目标行
+ * @param cols - 列数
+ * @returns 新的布局；面板不存在、为固定面板或会与固定面板重叠时返回原布局的副本
+ */
+export function moveItem(
+	layout: readonly DashboardLayoutItem[],
+	id: string,
+	x: number,
+	y: number,
+	cols: number,
+): DashboardLayout {
+	return updateItem(layout, id, { x, y }, cols);
+}
+
+/**
+ * 调整面板尺寸，重叠的面板被推到下方，之后向上压缩布局
+ * @param layout - 布局
+ * @param id - 面板标识
+ * @param w - 目标宽度（列数）
+ * @param h - 目标高度（行数）
+ * @param cols - 列数
+ * @returns 新的布局，规则同 moveItem
+ */
+export function resizeItem(
+	layout: readonly DashboardLayoutItem[],
+	id: string,
+	w: number,
+	h: number,
+	cols: number,
+): DashboardLayout {
+	return updateItem(layout, id, { w, h }, cols);
+}
+
+/**
+ * 根据容器宽度取当前断点
+ * @param width - 容器宽度(px)
+ * @param breakpoints - 断点
+ * @returns 最小宽度不超过容器宽度的最大断点，都不满足时取最小的断点；没有断点时返回 undefined
+ */
+export function getBreakpoint(
+	width: number,
+	breakpoints: DashboardBreakpoints,
+): string | undefined {
+	const sorted = Object.entries(breakpoints).sort((a, b) => b[1] - a[1]);
+	return (sorted.find(([, min]) => width >= min) ??
+		sorted[sorted.length - 1])?.[0];
+}
+
+/**
+ * 取断点下的布局
+ * @description 该断点没有布局时，从宽度最接近的断点（优先更宽的断点）的布局生成，
+ * 生成时按列数收缩并压缩
+ * @param layouts - 各断点下的布局
+ * @param breakpoints - 断点
+ * @param breakpoint - 当前断点
+ * @param cols - 当前断点的列数
+ * @returns 布局
+ */
+export function resolveLayout(
+	layouts: DashboardLayouts,
+	breakpoints: DashboardBreakpoints,
+	breakpoint: string,
+	cols: number,
+): DashboardLayout {
+	const own = layouts[breakpoint];
+	if (own) return compactLayout(own, cols);
+	const current = breakpoints[breakpoint] ?? 0;
+	const candidates = Object.keys(breakpoints)
+		.filter((name) => layouts[name])
+		.sort((a, b) => {
+			const da = breakpoints[a] - current;
+			const db = breakpoints[b] - current;
+			// 更宽的断点优先，其次按宽度差排序
+			return Number(da < 0) - Number(db < 0) || Math.abs(da) - Math.abs(db);
+		});
+	const source = candidates.length ? layouts[candidates[0]] : undefined;
+	return compactLayout(source ?? [], cols);
+}
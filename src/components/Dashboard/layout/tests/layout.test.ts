@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import type { DashboardLayout } from "../index";
+import {
+	compactLayout,
+	getBreakpoint,
+	moveItem,
+	resizeItem,
+	resolveLayout,
+} from "../index";
+
+const layout: DashboardLayout = [
+	{ i: "a", x: 0, y: 0, w: 6, h: 2 },
+	{ i: "b", x: 6, y: 0, w: 6, h: 2 },
+	{ i: "c", x: 0, y: 2, w: 12, h: 2 },
+];
+
+const positions = (value: DashboardLayout) =>
+	Object.fromEntries(value.map(({ i, x, y, w, h }) => [i, [x, y, w, h]]));
+
+describe("compactLayout", () => {
+	it("should float panels up and fit them into the columns", () => {
+		const result = compactLayout(
+			[
+				{ i: "a", x: 0, y: 3, w: 4, h: 2 },
+				{ i: "b", x: 10, y: 8, w: 20, h: 1, minW: 2 },
+				{ i: "s", x: 0, y: 0, w: 2, h: 2, static: true },
+			],
+			12,
+		);
+
+		expect(positions(result)).toEqual({
+			a: [0, 2, 4, 2],
+			b: [0, 4, 12, 1],
+			s: [0, 0, 2, 2],
+		});
+	});
+});
+
+describe("moveItem", () => {
+	it("should push colliding panels down", () => {
+		const result = moveItem(layout, "c", 0, 0, 12);
+
+		expect(positions(result)).toEqual({
+			a: [0, 2, 6, 2],
+			b: [6, 2, 6, 2],
+			c: [0, 0, 12, 2],
+		});
+	});
+
+	it("should swap with the panel below when moving down", () => {
+		const stacked: DashboardLayout = [
+			{ i: "a", x: 0, y: 0, w: 6, h: 2 },
+			{ i: "b", x: 0, y: 2, w: 6, h: 2 },
+		];
+
+		expect(positions(moveItem(stacked, "a", 0, 2, 12))).toEqual({
+			a: [0, 2, 6, 2],
+			b: [0, 0, 6, 2],
+		});
+		// 没有移动足够距离时保持原位
+		expect(positions(moveItem(stacked, "a", 0, 1, 12))).toEqual(
+			positions(stacked),
+		);
+	});
+
+	it("should not move static panels or push them away", () => {
+		const fixed = layout.map((item) =>
+			item.i === "b" ? { ...item, static: true } : item,
+		);
+
+		expect(moveItem(fixed, "b", 0, 0, 12)).toEqual(fixed);
+		expect(moveItem(fixed, "a", 4, 0, 12)).toEqual(fixed);
+	});
+});
+
+describe("resizeItem", () => {
+	it("should respect size limits and push panels below", () => {
+		const result = resizeItem(
+			layout.map((item) => (item.i === "a" ? { ...item, maxH: 3 } : item)),
+			"a",
+			20,
+			5,
+			12,
+		);
+
+		expect(positions(result)).toEqual({
+			a: [0, 0, 12, 3],
+			b: [6, 3, 6, 2],
+			c: [0, 5, 12, 2],
+		});
+	});
+});
+
+describe("breakpoints", () => {
+	const breakpoints = { lg: 1200, md: 768, sm: 0 };
+
+	it("should pick the breakpoint by container width", () => {
+		expect(getBreakpoint(1400, breakpoints)).toBe("lg");
+		expect(getBreakpoint(800, breakpoints)).toBe("md");
+		expect(getBreakpoint(300, breakpoints)).toBe("sm");
+		expect(getBreakpoint(300, { lg: 1200, md: 768 })).toBe("md");
+	});
+
+	it("should return undefined without breakpoints", () => {
+		expect(getBreakpoint(800, {})).toBeUndefined();
+	});
+
+	it("should derive missing layouts from the nearest wider breakpoint", () => {
+		const layouts = { lg: layout, sm: [{ i: "a", x: 0, y: 0, w: 1, h: 1 }] };
+
+		expect(positions(resolveLayout(layouts, breakpoints, "md", 6))).toEqual({
+			a: [0, 0, 6, 2],
+			b: [0, 2, 6, 2],
+			c: [0, 4, 6, 2],
+		});
+		expect(resolveLayout(layouts, breakpoints, "sm", 2)).toEqual(layouts.sm);
+	});
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fireEvent, render } from "@testing-library/vue";
+import { h, nextTick, ref } from "vue";
+import type { DashboardLayout } from "../index";
+import Echarts from "../../Echarts/Echarts.vue";
+import { mockChartContainer } from "../../Echarts/tests/setup";
+import { DashboardGrid, DashboardPanel } from "../index";
+
+describe("DashboardGrid", () => {
+	beforeEach(() => {
+		// jsdom 未实现 PointerEvent
+		vi.stubGlobal("PointerEvent", MouseEvent);
+		// 12 列、间距 16 时每列步长约 101px，每行步长 76px
+		mockChartContainer(1200, 300);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	const mountGrid = () => {
+		let chart: any;
+		const layout = ref<DashboardLayout>([
+			{ i: "a", x: 0, y: 0, w: 6, h: 2 },
+			{ i: "b", x: 0, y: 2, w: 6, h: 2 },
+		]);
+		const wrapper = render({
+			setup: () => () =>
+				h(
+					DashboardGrid,
+					{
+						layout: layout.value,
+						"onUpdate:layout": (value: DashboardLayout) => {
+							layout.value = value;
+						},
+					},
+					() => [
+						h(DashboardPanel, { id: "a", title: "访问量" }, () => "A"),
+						h(DashboardPanel, { id: "b" }, () =>
+							h(Echarts, {
+								ref: (value: any) => {
+									chart = value;
+								},
+								renderer: "svg",
+								option: {
+									xAxis: { type: "category", data: ["a"] },
+									yAxis: {},
+									series: [{ type: "bar", data: [1] }],
+								},
+							}),
+						),
+					],
+				),
+		});
+		return { wrapper, layout, chart: () => chart };
+	};
+
+	it("should position panels and drag them by the header", async () => {
+		const { wrapper, layout } = mountGrid();
+		await nextTick();
+		const panel = wrapper.getByText("访问量").parentElement as HTMLElement;
+
+		expect(panel.style.top).toBe("0px");
+		expect(panel.style.width).toBe(`${(1200 - 16 * 11) / 2 + 16 * 5}px`);
+
+		// 只能通过标题栏拖拽
+		await fireEvent.pointerDown(wrapper.getByText("A"), { button: 0 });
+		await fireEvent.pointerMove(window, { clientY: 200 });
+		expect(panel.style.top).toBe("0px");
+
+		await fireEvent.pointerDown(wrapper.getByText("访问量"), {
+			button: 0,
+			clientX: 10,
+			clientY: 10,
+		});
+		await fireEvent.pointerMove(window, { clientX: 10, clientY: 170 });
+		expect(panel.style.top).toBe("152px");
+		expect(layout.value[0].y).toBe(0);
+
+		await fireEvent.pointerUp(window);
+		expect(layout.value).toEqual([
+			{ i: "a", x: 0, y: 2, w: 6, h: 2 },
+			{ i: "b", x: 0, y: 0, w: 6, h: 2 },
+		]);
+		wrapper.unmount();
+	});
+
+	it("should resize charts as soon as a resize ends", async () => {
+		const { wrapper, layout, chart } = mountGrid();
+		await nextTick();
+		await nextTick();
+		const resize = vi.spyOn(chart().getInstance(), "resize");
+		const handle = wrapper.container.querySelectorAll(
+			".lazyhand-dashboard-panel__resize",
+		)[1];
+
+		await fireEvent.pointerDown(handle, { button: 0, clientX: 0, clientY: 0 });
+		await fireEvent.pointerMove(window, { clientX: 210, clientY: 0 });
+		expect(resize).not.toHaveBeenCalled();
+
+		await fireEvent.pointerUp(window);
+		await nextTick();
+		expect(layout.value[1]).toMatchObject({ i: "b", w: 8, h: 2 });
+		expect(resize).toHaveBeenCalledTimes(1);
+		wrapper.unmount();
+	});
+
+	it("should treat empty breakpoints as a single layout", async () => {
+		const wrapper = render(DashboardGrid, {
+			props: {
+				breakpoints: {},
+				layout: [{ i: "a", x: 0, y: 0, w: 6, h: 2 }],
+			},
+			slots: {
+				default: () => h(DashboardPanel, { id: "a", title: "访问量" }),
+			},
+		});
+		await nextTick();
+		const panel = wrapper.getByText("访问量").parentElement as HTMLElement;
+
+		expect(panel.style.width).toBe(`${(1200 - 16 * 11) / 2 + 16 * 5}px`);
+		wrapper.unmount();
+	});
+
+	it("should render panels outside a grid as plain blocks", () => {
+		const warn = vi.spyOn(console, "warn");
+		const wrapper = render(DashboardPanel, {
+			props: { id: "a", title: "访问量" },
+			slots: { default: () => "A" },
+		});
+
+		const panel = wrapper.container.querySelector(".lazyhand-dashboard-panel");
+		expect(panel?.className).toContain("--standalone");
+		expect(wrapper.getByText("A")).toBeTruthy();
+		expect(
+			wrapper.container.querySelector(".lazyhand-dashboard-panel__resize"),
+		).toBeNull();
+		expect(warn).not.toHaveBeenCalled();
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,329 @@
+import type { EChartsType } from "echarts/core";
+import type { UseEchartsResult } from "../../../hooks";
+import type { AnyOption } from "../utils";
+import { toValue, watch } from "vue";
+import { getComponent } from "../model";
+import { clamp } from "../utils";
+
+/**
+ * 水平阈值线，拖动时只能上下移动
+ */
+export interface EchartsThreshold {
+	/**
+	 * y 轴上的取值
+	 */
+	value: number;
+	/**
+	 * 标签文字，默认显示当前取值
+	 */
+	label?: string;
+	color?: string;
+	yAxisIndex?: number;
+	/**
+	 * 是否可拖动，默认 true
+	 */
+	draggable?: boolean;
+	/**
+	 * 拖动后保留的小数位数，不设置时不做取整
+	 */
+	precision?: number;
+}
+
+/**
+ * 坐标系中的点标注
+ */
+export interface EchartsAnnotation {
+	/**
+	 * x 轴上的取值，类目轴为类目名
+	 */
+	x: number | string;
+	y: number;
+	text: string;
+	color?: string;
+	xAxisIndex?: number;
+	yAxisIndex?: number;
+	/**
+	 * 是否可拖动，默认 true
+	 */
+	draggable?: boolean;
+	/**
+	 * 拖动后数值坐标保留的小数位数，不设置时不做取整
+	 */
+	precision?: number;
+}
+
+interface Rect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * 图形元素事件回调中的 this
+ */
+interface DragTarget {
+	x: number;
+	y: number;
+	childAt: (index: number) => {
+		setStyle?: (key: string, value: unknown) => void;
+	};
+}
+
+const THRESHOLD_ID = "lazyhand-threshold-";
+const ANNOTATION_ID = "lazyhand-annotation-";
+
+function round(value: number, precision?: number): number {
+	if (precision === undefined) return value;
+	const factor = 10 ** precision;
+	return Math.round(value * factor) / factor;
+}
+
+function formatValue(value: number): string {
+	return String(Math.round(value * 100) / 100);
+}
+
+function axisRect(
+	instance: EChartsType,
+	mainType: "xAxis" | "yAxis",
+	index: number,
+): Rect | undefined {
+	return getComponent(instance, mainType, index)?.axis?.grid?.getRect();
+}
+
+function contains(rect: Rect, x: number, y: number): boolean {
+	return (
+		x >= rect.x &&
+		x <= rect.x + rect.width &&
+		y >= rect.y &&
+		y <= rect.y + rect.height
+	);
+}
+
+function thresholdElement(
+	instance: EChartsType,
+	item: EchartsThreshold,
+	index: number,
+	onChange: (index: number, value: number) => void,
+): AnyOption {
+	const yAxisIndex = item.yAxisIndex ?? 0;
+	const rect = axisRect(instance, "yAxis", yAxisIndex);
+	const y = rect
+		? instance.convertToPixel({ yAxisIndex }, item.value)
+		: Number.NaN;
+	const color = item.color ?? "#f53f3f";
+	const visible = !!rect && Number.isFinite(y) && contains(rect, rect.x, y);
+	const { x = 0, width = 0 } = rect ?? {};
+	const shape = { x1: x, y1: 0, x2: x + width, y2: 0 };
+	const readValue = (pixel: number) =>
+		round(
+			instance.convertFromPixel({ yAxisIndex }, pixel) as number,
+			item.precision,
+		);
+
+	return {
+		id: `${THRESHOLD_ID}${index}`,
+		type: "group",
+		x: 0,
+		y: visible ? y : 0,
+		invisible: !visible,
+		silent: !visible,
+		z: 100,
+		draggable: item.draggable === false ? false : "vertical",
+		cursor: item.draggable === false ? "default" : "ns-resize",
+		children: [
+			{
+				type: "line",
+				shape,
+				style: { stroke: color, lineWidth: 2, lineDash: [6, 4] },
+			},
+			// 透明的粗线用于扩大拖动热区
+			{
+				type: "line",
+				shape,
+				style: { stroke: "transparent", lineWidth: 10 },
+			},
+			{
+				type: "text",
+				x: x + width,
+				y: -4,
+				style: {
+					text: item.label ?? formatValue(item.value),
+					fill: color,
+					align: "right",
+					verticalAlign: "bottom",
+					fontSize: 12,
+				},
+			},
+		],
+		ondrag(this: DragTarget) {
+			if (!rect) return;
+			this.y = clamp(this.y, rect.y, rect.y + rect.height);
+			if (item.label === undefined) {
+				this.childAt(2).setStyle?.("text", formatValue(readValue(this.y)));
+			}
+		},
+		ondragend(this: DragTarget) {
+			onChange(index, readValue(this.y));
+		},
+	};
+}
+
+function annotationElement(
+	instance: EChartsType,
+	item: EchartsAnnotation,
+	index: number,
+	onChange: (index: number, x: number | string, y: number) => void,
+): AnyOption {
+	const finder = {
+		xAxisIndex: item.xAxisIndex ?? 0,
+		yAxisIndex: item.yAxisIndex ?? 0,
+	};
+	const rect = axisRect(instance, "xAxis", finder.xAxisIndex);
+	const point = rect
+		? (instance.convertToPixel(finder, [item.x, item.y]) as number[])
+		: undefined;
+	const [x, y] = point ?? [0, 0];
+	const visible =
+		!!rect && Number.isFinite(x) && Number.isFinite(y) && contains(rect, x, y);
+	const color = item.color ?? "#165dff";
+
+	return {
+		id: `${ANNOTATION_ID}${index}`,
+		type: "group",
+		x: visible ? x : 0,
+		y: visible ? y : 0,
+		invisible: !visible,
+		silent: !visible,
+		z: 100,
+		draggable: item.draggable !== false,
+		cursor: item.draggable === false ? "default" : "move",
+		children: [
+			{
+				type: "circle",
+				shape: { cx: 0, cy: 0, r: 5 },
+				style: { fill: color, stroke: "#fff", lineWidth: 2 },
+			},
+			{
+				type: "text",
+				x: 8,
+				y: 0,
+				style: {
+					text: item.text,
+					fill: "#fff",
+					backgroundColor: color,
+					padding: [2, 6],
+					borderRadius: 2,
+					verticalAlign: "middle",
+					fontSize: 12,
+				},
+			},
+		],
+		ondrag(this: DragTarget) {
+			if (!rect) return;
+			this.x = clamp(this.x, rect.x, rect.x + rect.width);
+			this.y = clamp(this.y, rect.y, rect.y + rect.height);
+		},
+		ondragend(this: DragTarget) {
+			const [valueX, valueY] = instance.convertFromPixel(finder, [
+				this.x,
+				this.y,
+			]) as number[];
+			// 类目轴返回类目索引，转换回类目名
+			const categories =
+				typeof item.x === "string"
+					? getComponent(
+							instance,
+							"xAxis",
+							finder.xAxisIndex,
+						)?.getCategories?.()
+					: undefined;
+			onChange(
+				index,
+				categories
+					? (categories[Math.round(valueX)] ?? item.x)
+					: round(valueX, item.precision),
+				round(valueY, item.precision),
+			);
+		},
+	};
+}
+
+export interface UseChartAnnotationsOptions {
+	thresholds: () => EchartsThreshold[] | undefined;
+	annotations: () => EchartsAnnotation[] | undefined;
+	/**
+	 * 拖动结束后的回调，参数为更新后的完整列表
+	 */
+	onThresholds?: (value: EchartsThreshold[]) => void;
+	onAnnotations?: (value: EchartsAnnotation[]) => void;
+}
+
+/**
+ * 可拖动的阈值线与点标注
+ * @description 以 graphic 元素绘制在图表之上，通过 convertToPixel 定位，
+ * 每次渲染后（包括尺寸变化与缩放）重新对齐；拖动结束后通过 convertFromPixel 换算为数据值回调
+ * @param chart - useEcharts 的返回值
+ * @param options - 数据读取函数与变化回调
+ */
+export function useChartAnnotations(
+	chart: Pick<UseEchartsResult, "instance" | "on" | "onDraw" | "onResize">,
+	options: UseChartAnnotationsOptions,
+): void {
+	// 已写入图表的元素 id，数量减少时需要移除多余的元素
+	let appliedIds: string[] = [];
+	// 上次写入的元素布局，未变化时不再写入
+	let appliedKey = "";
+
+	const changeThreshold = (index: number, value: number) => {
+		const thresholds = options.thresholds() ?? [];
+		options.onThresholds?.(
+			thresholds.map((item, i) => (i === index ? { ...item, value } : item)),
+		);
+	};
+
+	const changeAnnotation = (index: number, x: number | string, y: number) => {
+		const annotations = options.annotations() ?? [];
+		options.onAnnotations?.(
+			annotations.map((item, i) => (i === index ? { ...item, x, y } : item)),
+		);
+	};
+
+	function sync(force = false) {
+		const instance = toValue(chart.instance);
+		if (!instance) return;
+		const thresholds = options.thresholds() ?? [];
+		const annotations = options.annotations() ?? [];
+		if (!appliedIds.length && !thresholds.length && !annotations.length) {
+			return;
+		}
+		const elements = [
+			...thresholds.map((item, index) =>
+				thresholdElement(instance, item, index, changeThreshold),
+			),
+			...annotations.map((item, index) =>
+				annotationElement(instance, item, index, changeAnnotation),
+			),
+		];
+		// 回调函数不参与比较
+		const key = JSON.stringify(elements);
+		if (!force && key === appliedKey) return;
+		const ids = elements.map((element) => element.id as string);
+		const removed = appliedIds
+			.filter((id) => !ids.includes(id))
+			.map((id) => ({ id, $action: "remove" }));
+		appliedIds = ids;
+		appliedKey = key;
+		instance.setOption({ graphic: { elements: [...elements, ...removed] } });
+	}
+
+	// 重新绘制可能清空了 graphic，需要完整地重新写入
+	chart.onDraw(() => sync(true));
+	// 尺寸、缩放与图例变化会改变坐标系，需要重新对齐
+	chart.onResize(() => sync());
+	chart.on("datazoom", () => sync());
+	chart.on("legendselectchanged", () => sync());
+	watch([options.thresholds, options.annotations], () => sync(), {
+		deep: true,
+	});
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick, ref } from "vue";
+import type { EchartsAnnotation, EchartsThreshold } from "../index";
+import { mockChartContainer, mountUseEcharts } from "../../tests/setup";
+import { useChartAnnotations } from "../index";
+
+describe("useChartAnnotations", () => {
+	const option = {
+		dataZoom: [{ type: "inside", yAxisIndex: 0 }],
+		xAxis: { type: "category", data: ["Mon", "Tue", "Wed", "Thu"] },
+		yAxis: { type: "value", min: 0, max: 100 },
+		series: [{ type: "line", data: [10, 40, 60, 90] }],
+	} as any;
+
+	const mountChart = (
+		thresholds: EchartsThreshold[],
+		annotations: EchartsAnnotation[] = [],
+	) => {
+		const state = {
+			thresholds: ref(thresholds),
+			annotations: ref(annotations),
+		};
+		const onThresholds = vi.fn();
+		const onAnnotations = vi.fn();
+		const { chart, wrapper } = mountUseEcharts(option, {}, (chart) =>
+			useChartAnnotations(chart, {
+				thresholds: () => state.thresholds.value,
+				annotations: () => state.annotations.value,
+				onThresholds,
+				onAnnotations,
+			}),
+		);
+		const resize = () => chart.resize();
+		const instance = () => chart.instance.value as any;
+		return {
+			...state,
+			wrapper,
+			instance,
+			resize,
+			onThresholds,
+			onAnnotations,
+			// getOption 中的 graphic 元素已展开，只取顶层的分组
+			elements: (): any[] =>
+				(instance().getOption().graphic?.[0]?.elements ?? []).filter(
+					(item: any) => item.type === "group",
+				),
+		};
+	};
+
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should place thresholds at the value and report drags", async () => {
+		const ctx = mountChart([{ value: 50, precision: 0 }]);
+		await nextTick();
+
+		const [line] = ctx.elements();
+		expect(line.id).toBe("lazyhand-threshold-0");
+		expect(line.y).toBeCloseTo(
+			ctx.instance().convertToPixel({ yAxisIndex: 0 }, 50),
+		);
+
+		line.ondragend.call({
+			x: 0,
+			y: ctx.instance().convertToPixel({ yAxisIndex: 0 }, 80.4),
+		});
+		expect(ctx.onThresholds).toHaveBeenCalledWith([
+			{ value: 80, precision: 0 },
+		]);
+		ctx.wrapper.unmount();
+	});
+
+	it("should map annotations on category axes back to names", async () => {
+		const ctx = mountChart([], [{ x: "Tue", y: 40, text: "发布" }]);
+		await nextTick();
+
+		const [point] = ctx.elements();
+		const [x, y] = ctx
+			.instance()
+			.convertToPixel({ xAxisIndex: 0, yAxisIndex: 0 }, ["Tue", 40]);
+		expect(point).toMatchObject({ id: "lazyhand-annotation-0", x, y });
+
+		const target = ctx
+			.instance()
+			.convertToPixel({ xAxisIndex: 0, yAxisIndex: 0 }, ["Wed", 60]);
+		point.ondragend.call({ x: target[0], y: target[1] });
+		expect(ctx.onAnnotations).toHaveBeenCalledWith([
+			{ x: "Wed", y: expect.closeTo(60), text: "发布" },
+		]);
+		ctx.wrapper.unmount();
+	});
+
+	it("should realign on zoom and remove stale elements", async () => {
+		const ctx = mountChart([{ value: 50 }, { value: 20 }]);
+		await nextTick();
+		const before = ctx.elements()[0].y;
+
+		ctx.instance().dispatchAction({ type: "dataZoom", start: 30, end: 80 });
+		await vi.waitFor(() => expect(ctx.elements()[0].y).not.toBeCloseTo(before));
+		expect(ctx.elements()[0].y).toBeCloseTo(
+			ctx.instance().convertToPixel({ yAxisIndex: 0 }, 50),
+		);
+		// 20 已在缩放窗口 30~80 之外
+		expect(ctx.elements()[1].invisible).toBe(true);
+
+		ctx.thresholds.value = [{ value: 50 }];
+		await nextTick();
+		expect(ctx.elements().map((item) => item.id)).toEqual([
+			"lazyhand-threshold-0",
+		]);
+		ctx.wrapper.unmount();
+	});
+
+	it("should realign after resizing", async () => {
+		const ctx = mountChart([{ value: 50 }]);
+		await nextTick();
+		const before = ctx.elements()[0].y;
+		const setOption = vi.spyOn(ctx.instance(), "setOption");
+
+		vi.spyOn(HTMLElement.prototype, "clientHeight", "get").mockReturnValue(600);
+		ctx.resize();
+		expect(setOption).toHaveBeenCalledTimes(1);
+		expect(ctx.elements()[0].y).not.toBeCloseTo(before);
+		expect(ctx.elements()[0].y).toBeCloseTo(
+			ctx.instance().convertToPixel({ yAxisIndex: 0 }, 50),
+		);
+		ctx.wrapper.unmount();
+	});
+});
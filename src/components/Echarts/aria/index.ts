@@ -0,0 +1,171 @@
+import type { EChartsType } from "echarts/core";
+import type { Ref } from "vue";
+import type { AnyOption } from "../utils";
+import { ref } from "vue";
+import { toDataTable } from "../table";
+import { clamp } from "../utils";
+
+export interface EchartsAriaOptions {
+	/**
+	 * 图表描述，不设置时由 ECharts 根据配置自动生成
+	 */
+	description?: string;
+	/**
+	 * 是否启用键盘导航，默认开启
+	 */
+	keyboard?: boolean;
+	/**
+	 * 生成数据表格：`true` 为仅对读屏软件可见，`"visible"` 为默认显示（可切换）
+	 */
+	table?: boolean | "visible";
+}
+
+export interface ChartFocus {
+	seriesIndex: number;
+	dataIndex: number;
+}
+
+/**
+ * 将 `aria` 属性规范化为配置对象，未开启时返回 null
+ */
+export function normalizeAriaOptions(
+	aria: boolean | EchartsAriaOptions | undefined,
+): EchartsAriaOptions | null {
+	if (!aria) return null;
+	return { keyboard: true, ...(aria === true ? {} : aria) };
+}
+
+/**
+ * 为配置开启 AriaComponent 的无障碍描述，保留配置中已有的 aria 设置
+ */
+export function applyAria<T extends AnyOption>(
+	option: T,
+	aria: EchartsAriaOptions,
+): T {
+	const current = (option.aria ?? {}) as AnyOption;
+	return {
+		...option,
+		aria: {
+			enabled: true,
+			...current,
+			label: {
+				enabled: true,
+				...(aria.description ? { description: aria.description } : {}),
+				...current.label,
+			},
+		},
+	};
+}
+
+/**
+ * 获取系列的数据项数量，使用 dataset 时为数据集行数
+ */
+export function getSeriesDataCount(
+	option: AnyOption,
+	seriesIndex: number,
+): number {
+	const series = ([] as AnyOption[]).concat(option.series ?? [])[seriesIndex];
+	if (!series) return 0;
+	if (Array.isArray(series.data)) return series.data.length;
+	const datasets = ([] as AnyOption[]).concat(option.dataset ?? []);
+	const source = datasets[series.datasetIndex ?? 0]?.source;
+	if (Array.isArray(source)) {
+		// 二维数组默认首行为表头
+		return Array.isArray(source[0])
+			? Math.max(0, source.length - 1)
+			: source.length;
+	}
+	return 0;
+}
+
+/**
+ * 生成焦点数据项的文字描述，供读屏软件播报
+ */
+export function describeFocus(option: AnyOption, focus: ChartFocus): string {
+	const series = ([] as AnyOption[]).concat(option.series ?? [])[
+		focus.seriesIndex
+	];
+	const { columns, rows } = toDataTable(option);
+	const row = rows[focus.dataIndex];
+	if (!row) return "";
+	const cells = row.map((cell, i) =>
+		columns[i] ? `${columns[i]}: ${cell ?? "-"}` : String(cell ?? "-"),
+	);
+	return [series?.name, ...cells].filter(Boolean).join(", ");
+}
+
+/**
+ * 图表键盘导航
+ * @description 左右方向键在数据项间移动、上下方向键切换系列，通过 `dispatchAction`
+ * 高亮数据项并显示 tooltip；Esc 取消焦点
+ * @param getInstance - 获取图表实例
+ * @param getOption - 获取当前图表配置
+ * @returns 当前焦点与键盘事件处理函数
+ */
+export function useChartKeyboard(
+	getInstance: () => EChartsType | undefined,
+	getOption: () => AnyOption,
+): {
+	focus: Ref<ChartFocus | null>;
+	onKeydown: (event: KeyboardEvent) => void;
+	blur: () => void;
+} {
+	const focus = ref<ChartFocus | null>(null);
+
+	function highlight(next: ChartFocus | null) {
+		const instance = getInstance();
+		if (!instance) return;
+		if (focus.value) {
+			instance.dispatchAction({ type: "downplay", ...focus.value });
+		}
+		focus.value = next;
+		if (next) {
+			instance.dispatchAction({ type: "highlight", ...next });
+			instance.dispatchAction({ type: "showTip", ...next });
+		} else {
+			instance.dispatchAction({ type: "hideTip" });
+		}
+	}
+
+	function onKeydown(event: KeyboardEvent) {
+		const option = getOption();
+		const seriesCount = ([] as AnyOption[]).concat(option.series ?? []).length;
+		if (!seriesCount) return;
+
+		const current = focus.value ?? { seriesIndex: 0, dataIndex: -1 };
+		let { seriesIndex, dataIndex } = current;
+		switch (event.key) {
+			case "ArrowRight":
+				dataIndex++;
+				break;
+			case "ArrowLeft":
+				dataIndex = dataIndex < 0 ? 0 : dataIndex - 1;
+				break;
+			case "ArrowDown":
+				seriesIndex = (seriesIndex + 1) % seriesCount;
+				break;
+			case "ArrowUp":
+				seriesIndex = (seriesIndex - 1 + seriesCount) % seriesCount;
+				break;
+			case "Home":
+				dataIndex = 0;
+				break;
+			case "End":
+				dataIndex = getSeriesDataCount(option, seriesIndex) - 1;
+				break;
+			case "Escape":
+				highlight(null);
+				return;
+			default:
+				return;
+		}
+		event.preventDefault();
+
+		const count = getSeriesDataCount(option, seriesIndex);
+		if (!count) return;
+		dataIndex = clamp(dataIndex, 0, count - 1);
+		highlight({ seriesIndex, dataIndex });
+	}
+
+	return { focus, onKeydown, blur: () => highlight(null) };
+}
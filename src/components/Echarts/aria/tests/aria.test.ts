@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+	applyAria,
+	describeFocus,
+	getSeriesDataCount,
+	normalizeAriaOptions,
+	useChartKeyboard,
+} from "../index";
+
+const option = {
+	xAxis: { type: "category", data: ["Mon", "Tue", "Wed"] },
+	series: [
+		{ name: "PV", type: "bar", data: [1, 2, 3] },
+		{ name: "UV", type: "line", data: [4, 5] },
+	],
+};
+
+function keydown(key: string) {
+	return new KeyboardEvent("keydown", { key, cancelable: true });
+}
+
+describe("aria helpers", () => {
+	it("should normalize the aria prop with keyboard enabled", () => {
+		expect(normalizeAriaOptions(false)).toBeNull();
+		expect(normalizeAriaOptions(true)).toEqual({ keyboard: true });
+		expect(normalizeAriaOptions({ keyboard: false, table: true })).toEqual({
+			keyboard: false,
+			table: true,
+		});
+	});
+
+	it("should enable the aria component and keep existing settings", () => {
+		const result = applyAria(
+			{ aria: { decal: { show: true } } },
+			{ description: "weekly pv" },
+		) as any;
+
+		expect(result.aria).toEqual({
+			enabled: true,
+			decal: { show: true },
+			label: { enabled: true, description: "weekly pv" },
+		});
+	});
+
+	it("should count data items from series data or dataset rows", () => {
+		expect(getSeriesDataCount(option, 1)).toBe(2);
+		expect(
+			getSeriesDataCount(
+				{
+					dataset: {
+						source: [
+							["a", "b"],
+							[1, 2],
+						],
+					},
+					series: [{}],
+				},
+				0,
+			),
+		).toBe(1);
+		expect(
+			getSeriesDataCount(
+				{ dataset: { source: [{ a: 1 }, { a: 2 }] }, series: [{}] },
+				0,
+			),
+		).toBe(2);
+		expect(getSeriesDataCount(option, 5)).toBe(0);
+	});
+
+	it("should describe the focused data item", () => {
+		expect(describeFocus(option, { seriesIndex: 0, dataIndex: 1 })).toBe(
+			"PV, Tue, PV: 2, UV: 5",
+		);
+	});
+});
+
+describe("useChartKeyboard", () => {
+	it("should move focus with arrow keys and drive tooltips", () => {
+		const instance = { dispatchAction: vi.fn() } as any;
+		const { focus, onKeydown } = useChartKeyboard(
+			() => instance,
+			() => option,
+		);
+
+		onKeydown(keydown("ArrowRight"));
+		expect(focus.value).toEqual({ seriesIndex: 0, dataIndex: 0 });
+		expect(instance.dispatchAction).toHaveBeenCalledWith({
+			type: "showTip",
+			seriesIndex: 0,
+			dataIndex: 0,
+		});
+
+		onKeydown(keydown("End"));
+		expect(focus.value).toEqual({ seriesIndex: 0, dataIndex: 2 });
+
+		// 切换到数据更少的系列时限制索引范围
+		onKeydown(keydown("ArrowDown"));
+		expect(focus.value).toEqual({ seriesIndex: 1, dataIndex: 1 });
+		expect(instance.dispatchAction).toHaveBeenCalledWith({
+			type: "downplay",
+			seriesIndex: 0,
+			dataIndex: 2,
+		});
+
+		onKeydown(keydown("Escape"));
+		expect(focus.value).toBeNull();
+		expect(instance.dispatchAction).toHaveBeenLastCalledWith({
+			type: "hideTip",
+		});
+	});
+
+	it("should ignore unrelated keys", () => {
+		const instance = { dispatchAction: vi.fn() } as any;
+		const { focus, onKeydown } = useChartKeyboard(
+			() => instance,
+			() => option,
+		);
+		const event = keydown("a");
+
+		onKeydown(event);
+		expect(focus.value).toBeNull();
+		expect(event.defaultPrevented).toBe(false);
+		expect(instance.dispatchAction).not.toHaveBeenCalled();
+	});
+});
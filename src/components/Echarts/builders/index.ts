@@ -0,0 +1,286 @@
+import type { ECOption, LiquidFillSeriesOption } from "../config";
+import { toArray } from "../utils";
+
+/**
+ * 数据集中的一行记录
+ */
+export type DatasetRecord = Record<string, unknown>;
+
+interface BuilderBase {
+	/**
+	 * 图表标题
+	 */
+	title?: string;
+}
+
+interface CartesianBuilderOptions<T extends DatasetRecord> extends BuilderBase {
+	/**
+	 * 数据集
+	 */
+	dataset: T[];
+	/**
+	 * 作为类目轴的字段
+	 */
+	x: keyof T & string;
+	/**
+	 * 作为数值的字段，多个字段生成多个系列
+	 */
+	y: (keyof T & string) | Array<keyof T & string>;
+	/**
+	 * 堆叠分组名，设置后所有系列堆叠显示
+	 */
+	stack?: string;
+}
+
+export interface LineChartOptions<T extends DatasetRecord>
+	extends CartesianBuilderOptions<T> {
+	/**
+	 * 是否平滑曲线
+	 */
+	smooth?: boolean;
+	/**
+	 * 是否显示面积
+	 */
+	area?: boolean;
+}
+
+export interface BarChartOptions<T extends DatasetRecord>
+	extends CartesianBuilderOptions<T> {
+	/**
+	 * 是否为横向柱状图
+	 */
+	horizontal?: boolean;
+}
+
+export interface ScatterChartOptions<T extends DatasetRecord>
+	extends BuilderBase {
+	dataset: T[];
+	x: keyof T & string;
+	y: keyof T & string;
+	/**
+	 * 用于控制散点大小的字段
+	 */
+	size?: keyof T & string;
+}
+
+export interface PieChartOptions<T extends DatasetRecord> extends BuilderBase {
+	dataset: T[];
+	/**
+	 * 扇区名称字段
+	 */
+	name: keyof T & string;
+	/**
+	 * 扇区数值字段
+	 */
+	value: keyof T & string;
+	/**
+	 * 是否为环形图
+	 */
+	donut?: boolean;
+	/**
+	 * 南丁格尔玫瑰图模式
+	 */
+	roseType?: "radius" | "area";
+}
+
+export interface GaugeChartOptions extends BuilderBase {
+	value: number;
+	name?: string;
+	min?: number;
+	max?: number;
+	/**
+	 * 数值单位，显示在数值后
+	 */
+	unit?: string;
+}
+
+export interface LiquidFillChartOptions extends BuilderBase {
+	/**
+	 * 水位，取值 0 ~ 1，多个值表示多层波浪
+	 */
+	value: number | number[];
+	shape?: LiquidFillSeriesOption["shape"];
+	/**
+	 * 是否在中心显示最高水位的百分比
+	 */
+	showLabel?: boolean;
+}
+
+function titleOption(title?: string): Pick<ECOption, "title"> {
+	return title ? { title: { text: title, left: "center" } } : {};
+}
+
+/**
+ * 多系列时显示图例，并为标题留出空间
+ */
+function legendOption(count: number, title?: string): Pick<ECOption, "legend"> {
+	return count > 1 ? { legend: { top: title ? 28 : 0 } } : {};
+}
+
+/**
+ * 折线图配置构造器
+ * @param options - 数据集与字段映射
+ * @returns 图表配置
+ * @example
+ * ```ts
+ * const option = lineChart({
+ *   dataset: [{ month: "1月", pv: 120, uv: 80 }, { month: "2月", pv: 200, uv: 130 }],
+ *   x: "month",
+ *   y: ["pv", "uv"],
+ *   smooth: true,
+ * })
+ * ```
+ */
+export function lineChart<T extends DatasetRecord>(
+	options: LineChartOptions<T>,
+): ECOption {
+	const { dataset, x, title, stack, smooth, area } = options;
+	const fields = toArray(options.y);
+	return {
+		...titleOption(title),
+		...legendOption(fields.length, title),
+		tooltip: { trigger: "axis" },
+		grid: { containLabel: true, left: 16, right: 16, bottom: 16 },
+		dataset: { source: dataset },
+		xAxis: { type: "category", boundaryGap: false },
+		yAxis: { type: "value" },
+		series: fields.map((field) => ({
+			type: "line",
+			name: field,
+			encode: { x, y: field },
+			smooth,
+			stack,
+			showSymbol: false,
+			...(area ? { areaStyle: {} } : {}),
+		})),
+	};
+}
+
+/**
+ * 柱状图配置构造器
+ * @param options - 数据集与字段映射
+ * @returns 图表配置
+ */
+export function barChart<T extends DatasetRecord>(
+	options: BarChartOptions<T>,
+): ECOption {
+	const { dataset, x, title, stack, horizontal } = options;
+	const fields = toArray(options.y);
+	const categoryAxis = { type: "category" as const };
+	const valueAxis = { type: "value" as const };
+	return {
+		...titleOption(title),
+		...legendOption(fields.length, title),
+		tooltip: { trigger: "axis", axisPointer: { type: "shadow" } },
+		grid: { containLabel: true, left: 16, right: 16, bottom: 16 },
+		dataset: { source: dataset },
+		xAxis: horizontal ? valueAxis : categoryAxis,
+		yAxis: horizontal ? categoryAxis : valueAxis,
+		series: fields.map((field) => ({
+			type: "bar",
+			name: field,
+			encode: horizontal ? { x: field, y: x } : { x, y: field },
+			stack,
+		})),
+	};
+}
+
+/**
+ * 散点图配置构造器
+ * @param options - 数据集与字段映射
+ * @returns 图表配置
+ */
+export function scatterChart<T extends DatasetRecord>(
+	options: ScatterChartOptions<T>,
+): ECOption {
+	const { dataset, x, y, size, title } = options;
+	let symbolSize: ((value: Record<string, number>) => number) | undefined;
+	if (size) {
+		const values = dataset.map((item) => Number(item[size]) || 0);
+		const max = Math.max(...values, 1);
+		// 按最大值将散点大小映射到 6 ~ 36
+		symbolSize = (value) => 6 + ((Number(value[size]) || 0) / max) * 30;
+	}
+	return {
+		...titleOption(title),
+		tooltip: { trigger: "item" },
+		grid: { containLabel: true, left: 16, right: 16, bottom: 16 },
+		dataset: { source: dataset },
+		xAxis: { type: "value", scale: true },
+		yAxis: { type: "value", scale: true },
+		series: [{ type: "scatter", encode: { x, y }, symbolSize }],
+	};
+}
+
+/**
+ * 饼图配置构造器
+ * @param options - 数据集与字段映射
+ * @returns 图表配置
+ */
+export function pieChart<T extends DatasetRecord>(
+	options: PieChartOptions<T>,
+): ECOption {
+	const { dataset, name, value, title, donut, roseType } = options;
+	return {
+		...titleOption(title),
+		tooltip: { trigger: "item", formatter: "{b}: {d}%" },
+		legend: { bottom: 0, type: "scroll" },
+		dataset: { source: dataset },
+		series: [
+			{
+				type: "pie",
+				radius: donut ? ["45%", "70%"] : "70%",
+				roseType,
+				encode: { itemName: name, value },
+				label: { formatter: "{b}\n{d}%" },
+			},
+		],
+	};
+}
+
+/**
+ * 仪表盘配置构造器
+ * @param options - 数值与量程
+ * @returns 图表配置
+ */
+export function gaugeChart(options: GaugeChartOptions): ECOption {
+	const { value, name, min = 0, max = 100, unit = "", title } = options;
+	return {
+		...titleOption(title),
+		series: [
+			{
+				type: "gauge",
+				min,
+				max,
+				progress: { show: true },
+				detail: { valueAnimation: true, formatter: `{value}${unit}` },
+				data: [{ value, name }],
+			},
+		],
+	};
+}
+
+/**
+ * 水球图配置构造器
+ * @description 水球图系列由 echarts-liquidfill 提供，随 LiquidFillCard 一同注册
+ * @param options - 水位与形状
+ * @returns 图表配置
+ */
+export function liquidFillChart(options: LiquidFillChartOptions): ECOption {
+	const { value, shape = "circle", showLabel = true, title } = options;
+	const data = toArray(value);
+	return {
+		...titleOption(title),
+		series: [
+			{
+				type: "liquidFill",
+				shape,
+				radius: "80%",
+				// 多层波浪按从高到低排列，避免低水位被遮挡
+				data: [...data].sort((a, b) => b - a),
+				label: { show: showLabel },
+				outline: { show: true, borderDistance: 4 },
+			},
+		],
+	};
+}
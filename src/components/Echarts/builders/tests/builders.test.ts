@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+	barChart,
+	gaugeChart,
+	lineChart,
+	liquidFillChart,
+	pieChart,
+	scatterChart,
+} from "../index";
+
+const dataset = [
+	{ month: "Jan", pv: 120, uv: 80 },
+	{ month: "Feb", pv: 200, uv: 130 },
+];
+
+describe("chart builders", () => {
+	it("should build a line chart series per y field", () => {
+		const option = lineChart({
+			dataset,
+			x: "month",
+			y: ["pv", "uv"],
+			smooth: true,
+			area: true,
+		}) as any;
+
+		expect(option.dataset).toEqual({ source: dataset });
+		expect(option.xAxis.type).toBe("category");
+		expect(option.legend).toBeDefined();
+		expect(option.series).toHaveLength(2);
+		expect(option.series[1]).toMatchObject({
+			type: "line",
+			name: "uv",
+			encode: { x: "month", y: "uv" },
+			smooth: true,
+			areaStyle: {},
+		});
+	});
+
+	it("should omit the legend for a single series", () => {
+		const option = lineChart({ dataset, x: "month", y: "pv" }) as any;
+
+		expect(option.legend).toBeUndefined();
+		expect(option.series[0].areaStyle).toBeUndefined();
+	});
+
+	it("should swap axes for horizontal bar charts", () => {
+		const option = barChart({
+			dataset,
+			x: "month",
+			y: "pv",
+			horizontal: true,
+			stack: "total",
+		}) as any;
+
+		expect(option.xAxis.type).toBe("value");
+		expect(option.yAxis.type).toBe("category");
+		expect(option.series[0]).toMatchObject({
+			encode: { x: "pv", y: "month" },
+			stack: "total",
+		});
+	});
+
+	it("should scale scatter symbols by the size field", () => {
+		const option = scatterChart({
+			dataset,
+			x: "pv",
+			y: "uv",
+			size: "pv",
+		}) as any;
+		const symbolSize = option.series[0].symbolSize;
+
+		expect(symbolSize({ pv: 200 })).toBe(36);
+		expect(symbolSize({ pv: 0 })).toBe(6);
+	});
+
+	it("should build a donut pie chart", () => {
+		const option = pieChart({
+			dataset,
+			name: "month",
+			value: "pv",
+			donut: true,
+			title: "PV",
+		}) as any;
+
+		expect(option.title.text).toBe("PV");
+		expect(option.series[0]).toMatchObject({
+			type: "pie",
+			radius: ["45%", "70%"],
+			encode: { itemName: "month", value: "pv" },
+		});
+	});
+
+	it("should build gauge and liquid fill charts", () => {
+		const gauge = gaugeChart({ value: 42, unit: "%" }) as any;
+		expect(gauge.series[0]).toMatchObject({
+			type: "gauge",
+			min: 0,
+			max: 100,
+			data: [{ value: 42 }],
+		});
+		expect(gauge.series[0].detail.formatter).toBe("{value}%");
+
+		const liquid = liquidFillChart({ value: [0.3, 0.6] }) as any;
+		expect(liquid.series[0]).toMatchObject({
+			type: "liquidFill",
+			shape: "circle",
+			data: [0.6, 0.3],
+		});
+	});
+});
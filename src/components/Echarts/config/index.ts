@@ -1,34 +1,50 @@
 import type {
 	BarSeriesOption,
+	EffectScatterSeriesOption,
 	GaugeSeriesOption,
 	LineSeriesOption,
 	LinesSeriesOption,
+	MapSeriesOption,
 	PieSeriesOption,
 	RadarSeriesOption,
 	ScatterSeriesOption,
 } from "echarts/charts";
 import type {
+	AriaComponentOption,
 	DatasetComponentOption,
+	DataZoomComponentOption,
+	GeoComponentOption,
+	GraphicComponentOption,
 	GridComponentOption,
+	LegendComponentOption,
+	MarkLineComponentOption,
+	PolarComponentOption,
+	RadarComponentOption,
 	TitleComponentOption,
+	ToolboxComponentOption,
 	TooltipComponentOption,
 } from "echarts/components";
 import type { ComposeOption } from "echarts/core";
 import {
 	BarChart,
+	EffectScatterChart,
 	GaugeChart,
 	LineChart,
 	LinesChart,
+	MapChart,
 	PieChart,
 	RadarChart,
 	ScatterChart,
 } from "echarts/charts";
 import {
+	AriaComponent,
 	DatasetComponent,
 	DataZoomComponent,
 	GeoComponent,
+	GraphicComponent,
 	GridComponent,
 	LegendComponent,
+	MarkLineComponent,
 	PolarComponent,
 	TitleComponent,
 	ToolboxComponent,
@@ -37,8 +53,12 @@ import {
 } from "echarts/components";
 import * as echarts from "echarts/core";
 import { LabelLayout, UniversalTransition } from "echarts/features";
-import { CanvasRenderer } from "echarts/renderers";
-import "echarts-liquidfill";
+import { CanvasRenderer, SVGRenderer } from "echarts/renderers";
+import { DATASET_TRANSFORMS } from "../transform";
+import type { LiquidFillSeriesOption } from "./liquidFill";
+import { isDevelopment, toArray } from "../utils";
+
+export type { LiquidFillDataItem, LiquidFillSeriesOption } from "./liquidFill";
 
 export type ECOption = ComposeOption<
 	| BarSeriesOption
@@ -47,14 +67,74 @@ export type ECOption = ComposeOption<
 	| PieSeriesOption
 	| RadarSeriesOption
 	| GaugeSeriesOption
+	| ScatterSeriesOption
+	| EffectScatterSeriesOption
+	| MapSeriesOption
+	| LiquidFillSeriesOption
 	| TitleComponentOption
 	| TooltipComponentOption
 	| GridComponentOption
 	| DatasetComponentOption
-	| ScatterSeriesOption
+	| LegendComponentOption
+	| DataZoomComponentOption
+	| ToolboxComponentOption
+	| PolarComponentOption
+	| RadarComponentOption
+	| GeoComponentOption
+	| GraphicComponentOption
+	| MarkLineComponentOption
+	| AriaComponentOption
 >;
 
-echarts.use([
+/**
+ * 可通过 `echarts.use` 注册的扩展模块（图表、组件、渲染器、特性）
+ */
+export type EchartsModule = Parameters<typeof echarts.use>[0];
+
+/**
+ * 已注册的系列与组件类型，系列为 `series.bar` 形式，组件为主类型，例如 `dataZoom`
+ */
+const registeredTypes = new Set<string>();
+
+type ExtensionRegisters = Parameters<
+	Extract<EchartsModule, (...args: any[]) => void>
+>[0];
+type ModelClass = ExtensionRegisters["registerSeriesModel"] extends (
+	model: infer T,
+) => void
+	? T
+	: never;
+
+function modelType(model: ModelClass): string {
+	return (model as unknown as { type?: string }).type ?? "";
+}
+
+/**
+ * 注册模块，并记录模块注册的系列与组件类型
+ * @description 所有扩展模块（包括模块内部依赖的模块）共用同一个注册对象，
+ * 注册期间拦截其中的 registerSeriesModel 与 registerComponentModel
+ */
+function installModules(modules: EchartsModule): void {
+	echarts.use((registers: ExtensionRegisters) => {
+		const { registerSeriesModel, registerComponentModel } = registers;
+		registers.registerSeriesModel = (model) => {
+			registeredTypes.add(modelType(model));
+			registerSeriesModel(model);
+		};
+		registers.registerComponentModel = (model) => {
+			registeredTypes.add(modelType(model).split(".")[0]);
+			registerComponentModel(model);
+		};
+		try {
+			echarts.use(modules);
+		} finally {
+			registers.registerSeriesModel = registerSeriesModel;
+			registers.registerComponentModel = registerComponentModel;
+		}
+	});
+}
+
+installModules([
 	TitleComponent,
 	TooltipComponent,
 	GridComponent,
@@ -65,6 +145,9 @@ echarts.use([
 	GeoComponent,
 	ToolboxComponent,
 	DataZoomComponent,
+	AriaComponent,
+	GraphicComponent,
+	MarkLineComponent,
 	BarChart,
 	LineChart,
 	LinesChart,
@@ -72,9 +155,202 @@ echarts.use([
 	ScatterChart,
 	RadarChart,
 	GaugeChart,
+	MapChart,
+	EffectScatterChart,
 	LabelLayout,
 	UniversalTransition,
 	CanvasRenderer,
+	SVGRenderer,
 ]);
 
+// 基于 TransformComponent 的数据集转换：filter、groupBy、sort、pivot、topN
+for (const transform of DATASET_TRANSFORMS) {
+	echarts.registerTransform(transform);
+}
+
+/**
+ * 注册额外的 ECharts 模块
+ * @description 默认只注册了常用的图表与组件，其余模块（如热力图、桑基图、K 线图、矩形树图）需按需注册
+ * @param modules - 需要注册的模块，支持单个或数组
+ * @example
+ * ```ts
+ * import { HeatmapChart, SankeyChart } from "echarts/charts"
+ * import { VisualMapComponent } from "echarts/components"
+ *
+ * registerEchartsModules([HeatmapChart, SankeyChart, VisualMapComponent])
+ * ```
+ */
+export function registerEchartsModules(modules: EchartsModule): void {
+	installModules(modules);
+}
+
+/**
+ * 记录未经过扩展模块注册的类型
+ * @description 例如 echarts-liquidfill 在引入时通过 extendSeriesModel 注册系列
+ * @param types - 系列为 `series.liquidFill` 形式，组件为主类型
+ */
+export function markRegisteredTypes(types: string[]): void {
+	for (const type of types) registeredTypes.add(type);
+}
+
+/**
+ * 已注册的主题名称，ECharts 内置了 light 与 dark
+ */
+const registeredThemes = new Set<string>(["light", "dark"]);
+
+/**
+ * 注册自定义主题
+ * @description 注册后即可通过 Echarts 组件的 `theme` 属性使用该主题
+ * @param name - 主题名称
+ * @param theme - 主题配置，通常为主题编辑器导出的 JSON
+ * @example
+ * ```ts
+ * import corporate from "./corporate.json"
+ *
+ * registerTheme("corporate", corporate)
+ * // <Echarts theme="corporate" :option="option" />
+ * ```
+ */
+export function registerTheme(name: string, theme: object): void {
+	echarts.registerTheme(name, theme);
+	registeredThemes.add(name);
+}
+
+/**
+ * 判断主题是否已注册
+ */
+export function hasTheme(name: string): boolean {
+	return registeredThemes.has(name);
+}
+
+/**
+ * ECharts 语言包，结构参照 `echarts/i18n/langEN-obj.js`
+ */
+export type EchartsLocaleObject = Parameters<typeof echarts.registerLocale>[1];
+
+/**
+ * 已注册的语言包名称，ECharts 内置了 ZH 与 EN
+ */
+const registeredLocales = new Set<string>(["ZH", "EN"]);
+
+/**
+ * 注册语言包
+ * @description 注册后 Echarts 组件的 `locale` 属性会优先使用同名语言包（不区分大小写，
+ * 例如 `de-DE` 依次匹配 `DE-DE` 与 `DE`）
+ * @param name - 语言包名称，例如 "DE"
+ * @param locale - 语言包
+ * @example
+ * ```ts
+ * import langDE from "echarts/i18n/langDE-obj.js"
+ *
+ * registerLocale("DE", langDE)
+ * // <Echarts locale="de-DE" :option="option" />
+ * ```
+ */
+export function registerLocale(
+	name: string,
+	locale: EchartsLocaleObject,
+): void {
+	echarts.registerLocale(name.toUpperCase(), locale);
+	registeredLocales.add(name.toUpperCase());
+}
+
+/**
+ * 将语言区域转换为已注册的 ECharts 语言包名称
+ * @param locale - 语言区域，例如 `zh-CN`、`en-US`
+ * @returns 语言包名称，未设置时返回 undefined（由 ECharts 按浏览器语言选择），
+ * 没有对应语言包时返回 EN
+ */
+export function resolveEchartsLocale(locale?: string): string | undefined {
+	if (!locale) return undefined;
+	const name = locale.toUpperCase().replace("_", "-");
+	if (registeredLocales.has(name)) return name;
+	const language = name.split("-")[0];
+	return registeredLocales.has(language) ? language : "EN";
+}
+
+/**
+ * option 中需要由组件模块提供支持的顶层配置项
+ */
+const COMPONENT_MAIN_TYPES = [
+	"title",
+	"legend",
+	"grid",
+	"xAxis",
+	"yAxis",
+	"polar",
+	"radiusAxis",
+	"angleAxis",
+	"radar",
+	"dataZoom",
+	"visualMap",
+	"tooltip",
+	"axisPointer",
+	"toolbox",
+	"brush",
+	"geo",
+	"parallel",
+	"parallelAxis",
+	"singleAxis",
+	"timeline",
+	"graphic",
+	"calendar",
+	"dataset",
+];
+
+/**
+ * 查找 option 中引用了但尚未注册的系列与组件类型
+ * @param option - 图表配置
+ * @returns 未注册的类型列表，例如 `["series.heatmap", "visualMap"]`
+ */
+export function findUnregisteredTypes(option: Record<string, any>): string[] {
+	const missing = new Set<string>();
+
+	// 兼容 baseOption + options/media 的写法
+	for (const nested of [
+		option.baseOption,
+		...toArray(option.options),
+		...toArray(option.media).map((item) => item?.option),
+	]) {
+		if (nested) {
+			for (const type of findUnregisteredTypes(nested)) missing.add(type);
+		}
+	}
+
+	for (const series of toArray(option.series)) {
+		const type = series?.type;
+		if (type && !registeredTypes.has(`series.${type}`)) {
+			missing.add(`series.${type}`);
+		}
+	}
+
+	for (const mainType of COMPONENT_MAIN_TYPES) {
+		if (option[mainType] === undefined) continue;
+		if (!registeredTypes.has(mainType)) {
+			missing.add(mainType);
+		}
+	}
+
+	return [...missing];
+}
+
+// 每个类型只提示一次
+const warnedTypes = new Set<string>();
+
+/**
+ * 开发环境下提示未注册的系列与组件类型
+ */
+export function warnUnregisteredTypes(option: Record<string, any>): void {
+	if (!isDevelopment()) return;
+	const missing = findUnregisteredTypes(option).filter(
+		(type) => !warnedTypes.has(type),
+	);
+	if (missing.length) {
+		for (const type of missing) warnedTypes.add(type);
+		console.warn(
+			`[lazyhand-tool] ECharts 模块未注册: ${missing.join(", ")}，请通过 registerEchartsModules 注册后使用`,
+		);
+	}
+}
+
 export { echarts };
@@ -0,0 +1,84 @@
+/**
+ * echarts-liquidfill 水球图的样式配置
+ */
+interface LiquidFillItemStyle {
+	color?: string | object;
+	opacity?: number;
+	borderColor?: string;
+	borderWidth?: number;
+	shadowBlur?: number;
+	shadowColor?: string;
+}
+
+interface LiquidFillLabelOption {
+	show?: boolean;
+	color?: string;
+	insideColor?: string;
+	fontSize?: number;
+	fontWeight?: string | number;
+	align?: "left" | "center" | "right";
+	baseline?: "top" | "middle" | "bottom";
+	position?: string | [string | number, string | number];
+	formatter?: string | ((params: { value: number; name: string }) => string);
+}
+
+export interface LiquidFillDataItem {
+	value: number;
+	name?: string;
+	direction?: "left" | "right";
+	itemStyle?: LiquidFillItemStyle;
+	emphasis?: { itemStyle?: LiquidFillItemStyle };
+}
+
+/**
+ * echarts-liquidfill 水球图系列配置
+ * @see https://github.com/ecomfe/echarts-liquidfill
+ */
+export interface LiquidFillSeriesOption {
+	mainType?: "series";
+	type: "liquidFill";
+	id?: string;
+	name?: string;
+	/**
+	 * 水位，取值 0 ~ 1，多个值表示多层波浪
+	 */
+	data?: Array<number | LiquidFillDataItem>;
+	color?: string[];
+	shape?:
+		| "circle"
+		| "rect"
+		| "roundRect"
+		| "triangle"
+		| "diamond"
+		| "pin"
+		| "arrow"
+		| "container"
+		| (string & {});
+	center?: [string | number, string | number];
+	radius?: string | number;
+	amplitude?: string | number;
+	waveLength?: string | number;
+	phase?: number | "auto";
+	period?: number | "auto" | ((value: number, index: number) => number);
+	direction?: "left" | "right";
+	waveAnimation?: boolean;
+	animation?: boolean;
+	animationEasing?: string;
+	animationEasingUpdate?: string;
+	animationDuration?: number;
+	animationDurationUpdate?: number;
+	outline?: {
+		show?: boolean;
+		borderDistance?: number;
+		itemStyle?: LiquidFillItemStyle;
+	};
+	backgroundStyle?: LiquidFillItemStyle;
+	itemStyle?: LiquidFillItemStyle;
+	label?: LiquidFillLabelOption;
+	emphasis?: {
+		itemStyle?: LiquidFillItemStyle;
+	};
+	silent?: boolean;
+	z?: number;
+	zlevel?: number;
+}
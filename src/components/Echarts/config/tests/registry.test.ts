@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { HeatmapChart } from "echarts/charts";
+import { VisualMapComponent } from "echarts/components";
+import {
+	findUnregisteredTypes,
+	registerEchartsModules,
+	warnUnregisteredTypes,
+} from "../index";
+
+describe("echarts module registry", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+	});
+
+	it("should accept registered series and components", () => {
+		const option = {
+			title: { text: "demo" },
+			tooltip: {},
+			legend: {},
+			xAxis: { type: "category" },
+			yAxis: { type: "value" },
+			series: [{ type: "bar" }, { type: "line" }, { type: "pie" }],
+		};
+
+		expect(findUnregisteredTypes(option)).toEqual([]);
+	});
+
+	it("should report unregistered series and components", () => {
+		const option = {
+			visualMap: {},
+			series: [{ type: "sankey" }, { type: "bar" }],
+		};
+
+		expect(findUnregisteredTypes(option)).toEqual([
+			"series.sankey",
+			"visualMap",
+		]);
+	});
+
+	it("should inspect baseOption and media options", () => {
+		const option = {
+			baseOption: { series: [{ type: "treemap" }] },
+			media: [
+				{
+					query: { maxWidth: 400 },
+					option: { series: [{ type: "candlestick" }] },
+				},
+			],
+		};
+
+		expect(findUnregisteredTypes(option)).toEqual([
+			"series.treemap",
+			"series.candlestick",
+		]);
+	});
+
+	it("should pick up modules registered at runtime", () => {
+		const option = { visualMap: {}, series: [{ type: "heatmap" }] };
+		expect(findUnregisteredTypes(option)).toEqual([
+			"series.heatmap",
+			"visualMap",
+		]);
+
+		registerEchartsModules([HeatmapChart, VisualMapComponent]);
+
+		expect(findUnregisteredTypes(option)).toEqual([]);
+	});
+
+	it("should warn about unregistered types", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		warnUnregisteredTypes({ series: [{ type: "boxplot" }] });
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn.mock.calls[0][0]).toContain("series.boxplot");
+
+		warnUnregisteredTypes({ series: [{ type: "bar" }] });
+		expect(warn).toHaveBeenCalledTimes(1);
+	});
+
+	it("should warn about each type only once", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		warnUnregisteredTypes({ series: [{ type: "funnel" }] });
+		warnUnregisteredTypes({ series: [{ type: "funnel" }] });
+		expect(warn).toHaveBeenCalledTimes(1);
+
+		warnUnregisteredTypes({
+			series: [{ type: "funnel" }, { type: "sunburst" }],
+		});
+		expect(warn).toHaveBeenCalledTimes(2);
+		expect(warn.mock.calls[1][0]).toContain("series.sunburst");
+		expect(warn.mock.calls[1][0]).not.toContain("series.funnel");
+	});
+
+	it("should warn in a development build of the consumer", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.stubEnv("NODE_ENV", "development");
+
+		warnUnregisteredTypes({ series: [{ type: "treemap" }] });
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn.mock.calls[0][0]).toContain("series.treemap");
+	});
+
+	it("should stay silent in a production build of the consumer", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.stubEnv("NODE_ENV", "production");
+
+		warnUnregisteredTypes({ series: [{ type: "parallel" }] });
+		expect(warn).not.toHaveBeenCalled();
+	});
+});
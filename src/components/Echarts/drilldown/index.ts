@@ -0,0 +1,236 @@
+import type { ComputedRef, MaybeRefOrGetter, Ref } from "vue";
+import type { ECOption } from "../config";
+import type { AnyOption } from "../utils";
+import { computed, readonly, ref, toValue, watch } from "vue";
+import { toArray } from "../utils";
+
+/**
+ * 层级数据节点，有 children 的节点可以下钻
+ */
+export interface EchartsDrillNode {
+	name: string;
+	value?: number;
+	children?: EchartsDrillNode[];
+	[key: string]: unknown;
+}
+
+/**
+ * 当前所在的层级
+ */
+export interface EchartsDrillLevel {
+	/**
+	 * 层级深度，根层级为 0
+	 */
+	depth: number;
+	/**
+	 * 当前层级的父节点，根层级为 undefined
+	 */
+	parent?: EchartsDrillNode;
+	/**
+	 * 当前层级展示的节点
+	 */
+	nodes: EchartsDrillNode[];
+	/**
+	 * 从根层级到父节点经过的节点
+	 */
+	path: EchartsDrillNode[];
+}
+
+export interface EchartsBreadcrumb {
+	name: string;
+	depth: number;
+}
+
+export interface EchartsDrillDownOptions {
+	/**
+	 * 根层级的节点
+	 */
+	data: EchartsDrillNode[];
+	/**
+	 * 根据层级生成配置
+	 */
+	option: (level: EchartsDrillLevel) => ECOption;
+	/**
+	 * 面包屑中根层级的名称，默认“全部”
+	 */
+	rootName?: string;
+}
+
+export interface ChartDrillDown {
+	/**
+	 * 下钻经过的节点名称
+	 */
+	path: Readonly<Ref<readonly string[]>>;
+	level: ComputedRef<EchartsDrillLevel>;
+	breadcrumbs: ComputedRef<EchartsBreadcrumb[]>;
+	/**
+	 * 当前层级的配置，未提供层级数据时为 undefined
+	 */
+	option: ComputedRef<ECOption | undefined>;
+	/**
+	 * 下钻到当前层级中的节点，节点不存在或没有子节点时返回 false
+	 */
+	drill: (name: string) => boolean;
+	/**
+	 * 返回上一层
+	 */
+	back: () => void;
+	/**
+	 * 返回根层级
+	 */
+	reset: () => void;
+	/**
+	 * 跳转到指定深度的层级，用于点击面包屑
+	 */
+	goTo: (depth: number) => void;
+	/**
+	 * 设置下钻路径，无法解析的部分会被忽略
+	 */
+	setPath: (names: readonly string[]) => void;
+}
+
+/**
+ * 按名称逐层查找节点，遇到不存在或没有子节点的节点时停止
+ * @param data - 根层级的节点
+ * @param names - 下钻路径
+ * @returns 经过的节点
+ */
+export function resolveDrillPath(
+	data: readonly EchartsDrillNode[],
+	names: readonly string[],
+): EchartsDrillNode[] {
+	const path: EchartsDrillNode[] = [];
+	let nodes = data;
+	for (const name of names) {
+		const node = nodes.find((item) => item.name === name);
+		if (!node?.children?.length) break;
+		path.push(node);
+		nodes = node.children;
+	}
+	return path;
+}
+
+/**
+ * 为层级配置开启下钻动画，并将层级配置合并到基础配置上
+ * @description 系列开启 universalTransition，子层级的系列以父节点名称作为 dataGroupId，
+ * 带 name 的对象数据项以名称作为 groupId，使父节点在下钻时拆分为子节点、返回时合并；已设置的值保持不变
+ * @param base - 基础配置，例如标题、提示框等不随层级变化的部分
+ * @param option - 层级配置
+ * @param level - 层级
+ * @returns 合并后的配置
+ */
+export function applyDrillLevel(
+	base: ECOption,
+	option: ECOption | undefined,
+	level: EchartsDrillLevel,
+): ECOption {
+	if (!option) return base;
+	const result: AnyOption = { ...base, ...option };
+	if (result.series) {
+		const series = toArray(result.series);
+		result.series = series.map((item: AnyOption) => ({
+			...item,
+			universalTransition: item.universalTransition ?? {
+				enabled: true,
+				divideShape: "clone",
+			},
+			dataGroupId: item.dataGroupId ?? level.parent?.name,
+			data: Array.isArray(item.data)
+				? item.data.map((datum: unknown) =>
+						datum !== null &&
+						typeof datum === "object" &&
+						!Array.isArray(datum) &&
+						"name" in datum &&
+						!("groupId" in datum)
+							? { ...datum, groupId: datum.name }
+							: datum,
+					)
+				: item.data,
+		}));
+	}
+	return result as ECOption;
+}
+
+/**
+ * 层级数据下钻
+ * @description 维护下钻路径，配合 applyDrillLevel 与 PLAYBACK_UPDATE_OPTIONS 写入图表时，
+ * 层级之间会通过 UniversalTransition 过渡
+ * @param options - 层级数据与配置生成函数
+ * @returns 下钻状态与导航方法
+ * @example
+ * ```ts
+ * const drillDown = useChartDrillDown({
+ *   data: regions,
+ *   option: ({ nodes }) => ({
+ *     xAxis: { type: "category", data: nodes.map((node) => node.name) },
+ *     yAxis: { type: "value" },
+ *     series: [{ type: "bar", data: nodes.map(({ name, value }) => ({ name, value })) }],
+ *   }),
+ * })
+ * chart.on("click", (params) => drillDown.drill(params.name))
+ * ```
+ */
+export function useChartDrillDown(
+	options: MaybeRefOrGetter<EchartsDrillDownOptions | undefined>,
+): ChartDrillDown {
+	const path = ref<string[]>([]);
+
+	const level = computed<EchartsDrillLevel>(() => {
+		const data = toValue(options)?.data ?? [];
+		const nodes = resolveDrillPath(data, path.value);
+		const parent = nodes[nodes.length - 1];
+		return {
+			depth: nodes.length,
+			parent,
+			nodes: parent?.children ?? data,
+			path: nodes,
+		};
+	});
+
+	const breadcrumbs = computed<EchartsBreadcrumb[]>(() => [
+		{ name: toValue(options)?.rootName ?? "全部", depth: 0 },
+		...level.value.path.map((node, index) => ({
+			name: node.name,
+			depth: index + 1,
+		})),
+	]);
+
+	const option = computed(() => toValue(options)?.option(level.value));
+
+	function setPath(names: readonly string[]) {
+		const data = toValue(options)?.data ?? [];
+		const next = resolveDrillPath(data, names).map((node) => node.name);
+		if (next.join("\0") !== path.value.join("\0")) path.value = next;
+	}
+
+	function drill(name: string) {
+		const node = level.value.nodes.find((item) => item.name === name);
+		if (!node?.children?.length) return false;
+		path.value = [...path.value, name];
+		return true;
+	}
+
+	function goTo(depth: number) {
+		const target = Math.max(0, depth);
+		if (target >= path.value.length) return;
+		path.value = path.value.slice(0, target);
+	}
+
+	// 数据变化后丢弃无法解析的路径
+	watch(
+		() => toValue(options)?.data,
+		() => setPath(path.value),
+	);
+
+	return {
+		path: readonly(path),
+		level,
+		breadcrumbs,
+		option,
+		drill,
+		back: () => goTo(path.value.length - 1),
+		reset: () => goTo(0),
+		goTo,
+		setPath,
+	};
+}
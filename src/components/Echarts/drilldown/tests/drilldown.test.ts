@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { fireEvent } from "@testing-library/vue";
+import { effectScope, h, nextTick, ref } from "vue";
+import type {
+	ChartDrillDown,
+	EchartsDrillDownOptions,
+	EchartsDrillNode,
+} from "../index";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import { applyDrillLevel, useChartDrillDown } from "../index";
+
+const data: EchartsDrillNode[] = [
+	{
+		name: "华东",
+		value: 30,
+		children: [
+			{
+				name: "上海",
+				value: 20,
+				children: [
+					{ name: "徐汇店", value: 12 },
+					{ name: "静安店", value: 8 },
+				],
+			},
+			{ name: "杭州", value: 10 },
+		],
+	},
+	{ name: "华北", value: 15 },
+];
+
+const drillOptions: EchartsDrillDownOptions = {
+	data,
+	option: ({ nodes }) => ({
+		xAxis: { type: "category", data: nodes.map((node) => node.name) },
+		yAxis: { type: "value" },
+		series: [
+			{
+				type: "bar",
+				data: nodes.map(({ name, value }) => ({ name, value })),
+			},
+		],
+	}),
+};
+
+describe("applyDrillLevel", () => {
+	it("should enable universal transition and link data groups", () => {
+		const option = applyDrillLevel(
+			{ title: { text: "销售额" } },
+			{
+				series: [
+					{
+						type: "bar",
+						data: [
+							{ name: "上海", value: 20 },
+							10,
+							{ name: "杭州", groupId: "x" },
+						],
+					},
+				],
+			},
+			{ depth: 1, parent: data[0], nodes: [], path: [data[0]] },
+		);
+
+		expect(option).toEqual({
+			title: { text: "销售额" },
+			series: [
+				{
+					type: "bar",
+					universalTransition: { enabled: true, divideShape: "clone" },
+					dataGroupId: "华东",
+					data: [
+						{ name: "上海", value: 20, groupId: "上海" },
+						10,
+						{ name: "杭州", groupId: "x" },
+					],
+				},
+			],
+		});
+	});
+});
+
+describe("useChartDrillDown", () => {
+	it("should navigate the hierarchy and track breadcrumbs", () => {
+		const scope = effectScope();
+		const drillDown = scope.run(() =>
+			useChartDrillDown({ ...drillOptions, rootName: "全国" }),
+		) as ChartDrillDown;
+
+		expect(drillDown.drill("华北")).toBe(false);
+		expect(drillDown.drill("华东")).toBe(true);
+		expect(drillDown.drill("上海")).toBe(true);
+		expect(drillDown.level.value.nodes.map((node) => node.name)).toEqual([
+			"徐汇店",
+			"静安店",
+		]);
+		expect(drillDown.breadcrumbs.value).toEqual([
+			{ name: "全国", depth: 0 },
+			{ name: "华东", depth: 1 },
+			{ name: "上海", depth: 2 },
+		]);
+
+		drillDown.back();
+		expect(drillDown.path.value).toEqual(["华东"]);
+		drillDown.reset();
+		expect(drillDown.level.value.depth).toBe(0);
+
+		drillDown.setPath(["华东", "杭州"]);
+		expect(drillDown.path.value).toEqual(["华东"]);
+		scope.stop();
+	});
+
+	it("should drop unresolved path when data changes", async () => {
+		const source = ref(data);
+		const scope = effectScope();
+		const drillDown = scope.run(() =>
+			useChartDrillDown(() => ({ ...drillOptions, data: source.value })),
+		) as ChartDrillDown;
+
+		drillDown.setPath(["华东", "上海"]);
+		source.value = [{ ...data[0], children: [{ name: "上海" }] }];
+		await nextTick();
+		expect(drillDown.path.value).toEqual(["华东"]);
+		scope.stop();
+	});
+});
+
+describe("Echarts drillDown", () => {
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should drill on click and sync v-model with breadcrumbs", async () => {
+		const drillPath = ref<string[]>([]);
+		const { wrapper, instance } = mountChart(
+			() => ({
+				option: { title: { text: "销售额" } },
+				drillDown: drillOptions,
+				drillPath: drillPath.value,
+				"onUpdate:drillPath": (value: string[]) => {
+					drillPath.value = value;
+				},
+			}),
+			{
+				breadcrumb: ({ items, goTo }: any) =>
+					items.map((item: any) =>
+						h("button", { onClick: () => goTo(item.depth) }, item.name),
+					),
+			},
+		);
+		await nextTick();
+		await nextTick();
+		const categories = () => instance().getOption().xAxis[0].data as string[];
+
+		expect(categories()).toEqual(["华东", "华北"]);
+		instance().trigger("click", { name: "华东" });
+		await nextTick();
+		await nextTick();
+		expect(drillPath.value).toEqual(["华东"]);
+		expect(categories()).toEqual(["上海", "杭州"]);
+		expect(instance().getOption().series[0].dataGroupId).toBe("华东");
+
+		drillPath.value = ["华东", "上海"];
+		await nextTick();
+		await nextTick();
+		expect(categories()).toEqual(["徐汇店", "静安店"]);
+		expect(wrapper.container.textContent).toContain("全部华东上海");
+
+		await fireEvent.click(wrapper.getByText("全部"));
+		await nextTick();
+		expect(drillPath.value).toEqual([]);
+		expect(categories()).toEqual(["华东", "华北"]);
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,323 @@
+import type {
+	DownplayPayload,
+	ECElementEvent,
+	EChartsType,
+	ElementEvent,
+	HighlightPayload,
+	Payload,
+	SelectChangedPayload,
+} from "echarts/core";
+import type { EchartsAnnotation, EchartsThreshold } from "../annotation";
+import type {
+	EchartsLegendSelected,
+	EchartsSelection,
+	EchartsZoom,
+} from "../model";
+
+/**
+ * 图表元素上的鼠标事件
+ */
+export const MOUSE_EVENTS = [
+	"click",
+	"dblclick",
+	"mousedown",
+	"mousemove",
+	"mouseup",
+	"mouseover",
+	"mouseout",
+	"globalout",
+	"contextmenu",
+] as const;
+
+/**
+ * 组件交互事件与生命周期事件
+ */
+export const COMPONENT_EVENTS = [
+	"highlight",
+	"downplay",
+	"showtip",
+	"hidetip",
+	"selectchanged",
+	"legendselectchanged",
+	"legendselected",
+	"legendunselected",
+	"legendselectall",
+	"legendinverseselect",
+	"legendscroll",
+	"datazoom",
+	"datarangeselected",
+	"graphroam",
+	"georoam",
+	"treeroam",
+	"timelinechanged",
+	"timelineplaychanged",
+	"restore",
+	"dataviewchanged",
+	"magictypechanged",
+	"geoselectchanged",
+	"geoselected",
+	"geounselected",
+	"axisareaselected",
+	"brush",
+	"brushEnd",
+	"brushselected",
+	"globalcursortaken",
+	"rendered",
+	"finished",
+] as const;
+
+/**
+ * zrender 层事件，对外以 `zr:` 前缀暴露
+ */
+export const ZR_EVENTS = [
+	"click",
+	"dblclick",
+	"mousewheel",
+	"mousedown",
+	"mousemove",
+	"mouseup",
+	"mouseover",
+	"mouseout",
+	"globalout",
+	"contextmenu",
+] as const;
+
+export type MouseEventName = (typeof MOUSE_EVENTS)[number];
+export type ComponentEventName = (typeof COMPONENT_EVENTS)[number];
+export type ZrEventName = `zr:${(typeof ZR_EVENTS)[number]}`;
+export type EchartsEventName =
+	| MouseEventName
+	| ComponentEventName
+	| ZrEventName;
+
+/**
+ * 图例选中状态变化的事件参数
+ */
+export interface EchartsLegendEvent extends Payload {
+	name?: string;
+	selected: Record<string, boolean>;
+}
+
+export interface EchartsLegendScrollEvent extends Payload {
+	scrollDataIndex: number;
+	legendId?: string;
+}
+
+export interface EchartsDataZoomEvent extends Payload {
+	dataZoomId?: string;
+	start?: number;
+	end?: number;
+	startValue?: number | string;
+	endValue?: number | string;
+}
+
+export interface EchartsDataRangeEvent extends Payload {
+	visualMapId?: string;
+	/**
+	 * 连续型为选中的数值范围，分段型为各分段的选中状态
+	 */
+	selected: [number, number] | Record<string, boolean>;
+}
+
+/**
+ * 关系图、地理坐标系与树图的平移缩放事件参数
+ */
+export interface EchartsRoamEvent extends Payload {
+	componentType?: string;
+	seriesId?: string;
+	dx?: number;
+	dy?: number;
+	zoom?: number;
+	originX?: number;
+	originY?: number;
+}
+
+export interface EchartsTimelineChangedEvent extends Payload {
+	currentIndex: number;
+}
+
+export interface EchartsTimelinePlayEvent extends Payload {
+	playState: boolean;
+}
+
+export interface EchartsMagicTypeEvent extends Payload {
+	currentType: string;
+}
+
+export interface EchartsGeoSelectEvent extends Payload {
+	name: string;
+	selected: Record<string, boolean>;
+}
+
+export interface EchartsAxisAreaEvent extends Payload {
+	parallelAxisId?: string;
+	intervals: number[][];
+}
+
+export interface EchartsBrushArea {
+	brushType: string;
+	range: number[] | number[][];
+	coordRange?: number[] | number[][];
+	panelId?: string;
+	xAxisIndex?: number;
+	yAxisIndex?: number;
+	geoIndex?: number;
+}
+
+export interface EchartsBrushEvent extends Payload {
+	areas: EchartsBrushArea[];
+}
+
+export interface EchartsBrushSelectedEvent extends Payload {
+	batch: Array<{
+		brushId: string;
+		brushIndex: number;
+		brushName: string;
+		areas: EchartsBrushArea[];
+		selected: Array<{
+			seriesId: string;
+			seriesIndex: number;
+			seriesName: string;
+			dataIndex: number[];
+		}>;
+	}>;
+}
+
+export interface EchartsCursorTakenEvent extends Payload {
+	key: string;
+	brushOption?: Record<string, unknown>;
+}
+
+export interface EchartsRenderedEvent {
+	/**
+	 * 本次渲染的耗时(ms)
+	 */
+	elapsedTime: number;
+}
+
+/**
+ * Echarts 组件对外触发的事件
+ * @description `error` 与 `update:*` 由组件自身触发，其余为图表事件
+ */
+export type EchartsEmits = {
+	click: [ECElementEvent];
+	dblclick: [ECElementEvent];
+	mousedown: [ECElementEvent];
+	mousemove: [ECElementEvent];
+	mouseup: [ECElementEvent];
+	mouseover: [ECElementEvent];
+	mouseout: [ECElementEvent];
+	globalout: [ECElementEvent];
+	contextmenu: [ECElementEvent];
+	highlight: [HighlightPayload];
+	downplay: [DownplayPayload];
+	showtip: [Payload];
+	hidetip: [Payload];
+	selectchanged: [SelectChangedPayload];
+	legendselectchanged: [EchartsLegendEvent];
+	legendselected: [EchartsLegendEvent];
+	legendunselected: [EchartsLegendEvent];
+	legendselectall: [EchartsLegendEvent];
+	legendinverseselect: [EchartsLegendEvent];
+	legendscroll: [EchartsLegendScrollEvent];
+	datazoom: [EchartsDataZoomEvent];
+	datarangeselected: [EchartsDataRangeEvent];
+	graphroam: [EchartsRoamEvent];
+	georoam: [EchartsRoamEvent];
+	treeroam: [EchartsRoamEvent];
+	timelinechanged: [EchartsTimelineChangedEvent];
+	timelineplaychanged: [EchartsTimelinePlayEvent];
+	restore: [Payload];
+	dataviewchanged: [Payload];
+	magictypechanged: [EchartsMagicTypeEvent];
+	geoselectchanged: [EchartsGeoSelectEvent];
+	geoselected: [EchartsGeoSelectEvent];
+	geounselected: [EchartsGeoSelectEvent];
+	axisareaselected: [EchartsAxisAreaEvent];
+	brush: [EchartsBrushEvent];
+	brushEnd: [EchartsBrushEvent];
+	brushselected: [EchartsBrushSelectedEvent];
+	globalcursortaken: [EchartsCursorTakenEvent];
+	rendered: [EchartsRenderedEvent];
+	finished: [];
+	"zr:click": [ElementEvent];
+	"zr:dblclick": [ElementEvent];
+	"zr:mousewheel": [ElementEvent];
+	"zr:mousedown": [ElementEvent];
+	"zr:mousemove": [ElementEvent];
+	"zr:mouseup": [ElementEvent];
+	"zr:mouseover": [ElementEvent];
+	"zr:mouseout": [ElementEvent];
+	"zr:globalout": [ElementEvent];
+	"zr:contextmenu": [ElementEvent];
+	/**
+	 * 写入配置时抛出的异常
+	 */
+	error: [unknown];
+	"update:legendSelected": [EchartsLegendSelected];
+	"update:selection": [EchartsSelection];
+	"update:zoom": [EchartsZoom];
+	"update:thresholds": [EchartsThreshold[]];
+	"update:annotations": [EchartsAnnotation[]];
+	"update:currentFrame": [number];
+	"update:drillPath": [string[]];
+};
+
+/**
+ * 将事件名转换为 vnode 上的监听器属性名，例如 `zr:click` -> `onZr:click`
+ */
+function toHandlerKey(event: string): string {
+	return `on${event.charAt(0).toUpperCase()}${event.slice(1)}`;
+}
+
+/**
+ * 判断组件 vnode 上是否存在某个事件的监听器（包含 `.once` 修饰符）
+ */
+export function hasListener(
+	vnodeProps: Record<string, unknown> | null | undefined,
+	event: string,
+): boolean {
+	if (!vnodeProps) return false;
+	const key = toHandlerKey(event);
+	return !!(vnodeProps[key] || vnodeProps[`${key}Once`]);
+}
+
+/**
+ * 获取组件上存在监听器的图表事件
+ * @description 只为存在监听器的事件注册回调，避免无谓的事件派发
+ * @param vnodeProps - 组件 vnode 上的属性
+ * @returns 事件名列表
+ */
+export function getListenedEvents(
+	vnodeProps: Record<string, unknown> | null | undefined,
+): EchartsEventName[] {
+	return [
+		...MOUSE_EVENTS,
+		...COMPONENT_EVENTS,
+		...ZR_EVENTS.map((name) => `zr:${name}` as const),
+	].filter((event) => hasListener(vnodeProps, event));
+}
+
+/**
+ * 绑定单个图表事件，`zr:` 前缀的事件绑定到 zrender 实例
+ * @param instance - 图表实例
+ * @param event - 事件名
+ * @param handler - 回调，只接收事件参数
+ * @returns 解除绑定的函数
+ */
+export function bindEvent(
+	instance: EChartsType,
+	event: EchartsEventName,
+	handler: (params: any) => void,
+): () => void {
+	if (event.startsWith("zr:")) {
+		const name = event.slice(3) as (typeof ZR_EVENTS)[number];
+		const zr = instance.getZr();
+		const zrHandler = (params: ElementEvent) => handler(params);
+		zr.on(name, zrHandler);
+		return () => zr.off(name, zrHandler);
+	}
+	const chartHandler = (...args: unknown[]) => handler(args[0]);
+	instance.on(event, chartHandler);
+	return () => instance.off(event, chartHandler);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick, ref } from "vue";
+import type { ECOption } from "../../config";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import { getListenedEvents } from "../index";
+
+describe("getListenedEvents", () => {
+	it("should pick chart events with listeners", () => {
+		expect(
+			getListenedEvents({
+				onClick: () => {},
+				"onZr:mousewheel": () => {},
+				onDatazoomOnce: () => {},
+				onError: () => {},
+			}),
+		).toEqual(["click", "datazoom", "zr:mousewheel"]);
+		expect(getListenedEvents(null)).toEqual([]);
+	});
+});
+
+describe("Echarts events", () => {
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should follow listeners added and removed after mounting", async () => {
+		const listening = ref(false);
+		const onLegendselectchanged = vi.fn();
+		const option: ECOption = {
+			legend: {},
+			series: [{ name: "A", type: "pie", data: [{ name: "a", value: 1 }] }],
+		};
+		const { wrapper, instance } = mountChart(() => ({
+			option,
+			...(listening.value ? { onLegendselectchanged } : {}),
+		}));
+		await nextTick();
+		await nextTick();
+		const toggle = () =>
+			instance().dispatchAction({ type: "legendToggleSelect", name: "a" });
+
+		toggle();
+		expect(onLegendselectchanged).not.toHaveBeenCalled();
+
+		listening.value = true;
+		await nextTick();
+		toggle();
+		expect(onLegendselectchanged).toHaveBeenCalledTimes(1);
+		expect(onLegendselectchanged.mock.calls[0][0]).toMatchObject({
+			name: "a",
+			selected: { a: true },
+		});
+
+		listening.value = false;
+		await nextTick();
+		toggle();
+		expect(onLegendselectchanged).toHaveBeenCalledTimes(1);
+		wrapper.unmount();
+	});
+});
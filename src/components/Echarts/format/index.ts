@@ -0,0 +1,242 @@
+import type { ECOption } from "../config";
+import type { AnyOption } from "../utils";
+
+/**
+ * 预设格式
+ * - number：按语言区域分组的数字
+ * - compact：紧凑数字，例如 1.2万、1.2K
+ * - percent：百分比，数值按比例处理（0.12 -> 12%）
+ * - date / time / datetime：日期、时间、日期时间
+ */
+export type FormatPreset =
+	| "number"
+	| "compact"
+	| "percent"
+	| "date"
+	| "time"
+	| "datetime";
+
+/**
+ * 格式提示，写在坐标轴、系列或提示框配置的 `format` 上
+ * @example
+ * ```ts
+ * { yAxis: { type: "value", format: "compact" } }
+ * { series: [{ type: "bar", format: { type: "number", style: "currency", currency: "CNY" } }] }
+ * { xAxis: { type: "time", format: { type: "date", dateStyle: "short", timeZone: "UTC" } } }
+ * ```
+ */
+export type FormatHint =
+	| FormatPreset
+	| ({ type: "number" } & Intl.NumberFormatOptions)
+	| ({ type: "date" } & Intl.DateTimeFormatOptions);
+
+type WithFormat<T> = T extends readonly (infer U)[]
+	? WithFormat<U>[]
+	: T extends object
+		? T & { format?: FormatHint }
+		: T;
+
+/**
+ * 支持格式提示的配置项
+ */
+type HintKey =
+	| "xAxis"
+	| "yAxis"
+	| "radiusAxis"
+	| "angleAxis"
+	| "series"
+	| "tooltip";
+
+/**
+ * 坐标轴、系列与提示框上可以写格式提示的配置
+ */
+export type FormattedOption = {
+	[K in keyof ECOption]: K extends HintKey
+		? WithFormat<ECOption[K]>
+		: ECOption[K];
+};
+
+const PRESETS: Record<
+	FormatPreset,
+	{ type: "number" | "date" } & Intl.NumberFormatOptions &
+		Intl.DateTimeFormatOptions
+> = {
+	number: { type: "number" },
+	compact: { type: "number", notation: "compact" },
+	percent: { type: "number", style: "percent", maximumFractionDigits: 1 },
+	date: { type: "date", dateStyle: "medium" },
+	time: { type: "date", timeStyle: "short" },
+	datetime: { type: "date", dateStyle: "medium", timeStyle: "short" },
+};
+
+/**
+ * 默认标签显示数值的系列，格式提示会同时作用于标签
+ */
+const VALUE_LABEL_SERIES = ["bar", "line", "scatter", "effectScatter"];
+
+type Formatter = (value: unknown) => string;
+
+// 同一语言区域与格式提示复用同一个格式化函数，使重新计算的配置与上次相等，不触发多余的更新
+const formatters = new Map<string, Formatter>();
+const labelFormatters = new Map<string, (params: AnyOption) => string>();
+
+function formatterKey(hint: FormatHint, locale?: string): string {
+	return JSON.stringify([locale, hint]);
+}
+
+function getIntlFormatter(
+	hint: FormatHint,
+	locale?: string,
+): Intl.NumberFormat | Intl.DateTimeFormat {
+	const { type, ...options } = typeof hint === "string" ? PRESETS[hint] : hint;
+	return type === "date"
+		? new Intl.DateTimeFormat(locale, options as Intl.DateTimeFormatOptions)
+		: new Intl.NumberFormat(locale, options as Intl.NumberFormatOptions);
+}
+
+/**
+ * 根据格式提示创建格式化函数
+ * @description 无法按提示解析的值（例如类目名）原样输出，空值输出 `-`
+ * @param hint - 格式提示
+ * @param locale - 语言区域，例如 `zh-CN`、`en-US`，默认使用浏览器的语言区域
+ * @returns 格式化函数，相同的语言区域与格式提示返回同一个函数
+ * @example
+ * ```ts
+ * createFormatter("compact", "en-US")(12345) // "12K"
+ * createFormatter({ type: "number", style: "currency", currency: "CNY" }, "zh-CN")(12.5) // "¥12.50"
+ * ```
+ */
+export function createFormatter(hint: FormatHint, locale?: string): Formatter {
+	const key = formatterKey(hint, locale);
+	const cached = formatters.get(key);
+	if (cached) return cached;
+	const formatter = getIntlFormatter(hint, locale);
+	const format = (value: unknown): string => {
+		if (Array.isArray(value)) return value.map(format).join(", ");
+		if (
+			value === null ||
+			value === undefined ||
+			value === "" ||
+			value === "-"
+		) {
+			return "-";
+		}
+		if (formatter instanceof Intl.DateTimeFormat) {
+			const date = value instanceof Date ? value : new Date(value as number);
+			return Number.isNaN(date.getTime())
+				? String(value)
+				: formatter.format(date);
+		}
+		const number = Number(value);
+		return Number.isNaN(number) ? String(value) : formatter.format(number);
+	};
+	formatters.set(key, format);
+	return format;
+}
+
+/**
+ * 从标签回调参数中取出数值维度的值
+ */
+function labelValue(params: AnyOption): unknown {
+	const { value, encode } = params;
+	if (!Array.isArray(value)) return value;
+	const index = encode?.value?.[0] ?? encode?.y?.[0];
+	return value[index ?? value.length - 1];
+}
+
+function createLabelFormatter(
+	hint: FormatHint,
+	locale?: string,
+): (params: AnyOption) => string {
+	const key = formatterKey(hint, locale);
+	let formatter = labelFormatters.get(key);
+	if (!formatter) {
+		const format = createFormatter(hint, locale);
+		formatter = (params) => format(labelValue(params));
+		labelFormatters.set(key, formatter);
+	}
+	return formatter;
+}
+
+function mapItems(
+	value: unknown,
+	mapper: (item: AnyOption) => AnyOption,
+): unknown {
+	if (Array.isArray(value)) return value.map((item) => mapItems(item, mapper));
+	return value !== null && typeof value === "object"
+		? mapper(value as AnyOption)
+		: value;
+}
+
+function applyAxis(axis: AnyOption, locale?: string): AnyOption {
+	const { format, ...rest } = axis;
+	if (!format || rest.axisLabel?.formatter) return rest;
+	return {
+		...rest,
+		axisLabel: {
+			...rest.axisLabel,
+			formatter: createFormatter(format, locale),
+		},
+	};
+}
+
+function applySeries(series: AnyOption, locale?: string): AnyOption {
+	const { format, ...rest } = series;
+	if (!format) return rest;
+	const formatter = createFormatter(format, locale);
+	const result: AnyOption = {
+		...rest,
+		tooltip: {
+			valueFormatter: formatter,
+			...rest.tooltip,
+		},
+	};
+	if (VALUE_LABEL_SERIES.includes(rest.type) && !rest.label?.formatter) {
+		result.label = {
+			...rest.label,
+			formatter: createLabelFormatter(format, locale),
+		};
+	}
+	if (rest.type === "gauge" && !rest.detail?.formatter) {
+		result.detail = { ...rest.detail, formatter };
+	}
+	return result;
+}
+
+function applyTooltip(tooltip: AnyOption, locale?: string): AnyOption {
+	const { format, ...rest } = tooltip;
+	if (!format || rest.valueFormatter) return rest;
+	return { ...rest, valueFormatter: createFormatter(format, locale) };
+}
+
+/**
+ * 将配置中的格式提示转换为 Intl 格式化函数
+ * @description 坐标轴提示设置 `axisLabel.formatter`；系列提示设置系列提示框的 `valueFormatter`，
+ * 折线、柱状、散点图同时设置标签，仪表盘设置详情；提示框提示设置全局 `valueFormatter`。
+ * 已手动设置的 formatter 保持不变
+ * @param option - 带格式提示的配置
+ * @param locale - 语言区域，例如 `zh-CN`、`en-US`
+ * @returns 转换后的配置，不会修改传入的配置
+ */
+export function applyFormats(
+	option: FormattedOption,
+	locale?: string,
+): ECOption {
+	const result: AnyOption = { ...option };
+	for (const key of ["xAxis", "yAxis", "radiusAxis", "angleAxis"] as const) {
+		if (result[key]) {
+			result[key] = mapItems(result[key], (axis) => applyAxis(axis, locale));
+		}
+	}
+	if (result.series) {
+		result.series = mapItems(result.series, (series) =>
+			applySeries(series, locale),
+		);
+	}
+	if (result.tooltip) {
+		result.tooltip = mapItems(result.tooltip, (tooltip) =>
+			applyTooltip(tooltip, locale),
+		);
+	}
+	return result as ECOption;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick, ref } from "vue";
+import { resolveEchartsLocale } from "../../config";
+import type { FormattedOption } from "../index";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import { diffOption } from "../../update";
+import { applyFormats, createFormatter } from "../index";
+
+describe("createFormatter", () => {
+	it("should format numbers with presets and Intl options", () => {
+		expect(createFormatter("compact", "en-US")(12345)).toBe("12K");
+		expect(createFormatter("number", "en-US")("1234.5")).toBe("1,234.5");
+		expect(createFormatter("percent", "en-US")(0.125)).toBe("12.5%");
+		expect(
+			createFormatter(
+				{ type: "number", style: "currency", currency: "USD" },
+				"en-US",
+			)(12.5),
+		).toBe("$12.50");
+	});
+
+	it("should format dates in the given time zone", () => {
+		const format = createFormatter(
+			{ type: "date", dateStyle: "short", timeZone: "UTC" },
+			"en-US",
+		);
+
+		expect(format(Date.UTC(2024, 0, 31, 23))).toBe("1/31/24");
+		expect(format("2024-02-01T00:00:00Z")).toBe("2/1/24");
+	});
+
+	it("should keep values that cannot be formatted", () => {
+		const format = createFormatter("number", "en-US");
+
+		expect(format("Mon")).toBe("Mon");
+		expect(format(null)).toBe("-");
+		expect(format([1000, 2000])).toBe("1,000, 2,000");
+	});
+});
+
+describe("applyFormats", () => {
+	it("should turn hints into formatters without overriding custom ones", () => {
+		const custom = () => "";
+		const option = applyFormats(
+			{
+				xAxis: { type: "category", data: ["a"] },
+				yAxis: [
+					{ type: "value", format: "compact" },
+					{
+						type: "value",
+						format: "percent",
+						axisLabel: { formatter: custom },
+					},
+				],
+				tooltip: { trigger: "axis", format: "number" },
+				series: [
+					{ type: "bar", format: "compact", data: [12345] },
+					{ type: "pie", format: "percent", data: [0.5] },
+				],
+			},
+			"en-US",
+		) as any;
+
+		expect(option.yAxis[0].format).toBeUndefined();
+		expect(option.yAxis[0].axisLabel.formatter(12345)).toBe("12K");
+		expect(option.yAxis[1].axisLabel.formatter).toBe(custom);
+		expect(option.tooltip.valueFormatter(1234)).toBe("1,234");
+		expect(option.series[0].tooltip.valueFormatter(12345)).toBe("12K");
+		expect(option.series[0].label.formatter({ value: 12345 })).toBe("12K");
+		expect(option.series[1].label).toBeUndefined();
+		expect(option.series[1].tooltip.valueFormatter(0.5)).toBe("50%");
+	});
+
+	it("should reuse formatters for the same locale and hint", () => {
+		const source: FormattedOption = {
+			yAxis: { type: "value", format: "compact" },
+			series: [{ type: "line", format: "number", data: [1] }],
+		};
+		const first = applyFormats(source, "en-US") as any;
+		const second = applyFormats(source, "en-US") as any;
+		const other = applyFormats(source, "zh-CN") as any;
+
+		expect(second).toEqual(first);
+		expect(second.yAxis.axisLabel.formatter).toBe(
+			first.yAxis.axisLabel.formatter,
+		);
+		expect(second.series[0].label.formatter).toBe(
+			first.series[0].label.formatter,
+		);
+		expect(diffOption(first, second)).toBeNull();
+		expect(other.yAxis.axisLabel.formatter).not.toBe(
+			first.yAxis.axisLabel.formatter,
+		);
+	});
+});
+
+describe("locale", () => {
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should map locales to registered language packs", () => {
+		expect(resolveEchartsLocale(undefined)).toBeUndefined();
+		expect(resolveEchartsLocale("zh-CN")).toBe("ZH");
+		expect(resolveEchartsLocale("en_US")).toBe("EN");
+		expect(resolveEchartsLocale("de-DE")).toBe("EN");
+	});
+
+	it("should recreate the chart when the locale changes", async () => {
+		const locale = ref("zh-CN");
+		const { wrapper, instance: current } = mountChart(() => ({
+			locale: locale.value,
+			option: {
+				xAxis: { type: "category", data: ["a"] },
+				yAxis: { type: "value", format: "compact" },
+				series: [{ type: "bar", data: [12345] }],
+			},
+		}));
+		await nextTick();
+		await nextTick();
+		const instance = current();
+		// 实例上的语言包为内部属性
+		expect(instance._locale.time.month[0]).toBe("一月");
+		expect(instance.getOption().yAxis[0].axisLabel.formatter(12345)).toBe(
+			"1.2万",
+		);
+
+		locale.value = "en-US";
+		await nextTick();
+		await nextTick();
+		expect(current()).not.toBe(instance);
+		expect(current()._locale.time.month[0]).toBe("January");
+		expect(current().getOption().yAxis[0].axisLabel.formatter(12345)).toBe(
+			"12K",
+		);
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,132 @@
+import { echarts } from "../config";
+import { toArray } from "../utils";
+
+type RegisterMapParams = Parameters<typeof echarts.registerMap>;
+
+/**
+ * GeoJSON 要素集合
+ */
+export interface GeoJSONFeatureCollection {
+	type?: string;
+	features: any[];
+	[key: string]: any;
+}
+
+/**
+ * 按需加载 GeoJSON 的函数，支持直接返回数据或 `import()` 得到的模块
+ */
+export type GeoJSONLoader = () => Promise<
+	GeoJSONFeatureCollection | { default: GeoJSONFeatureCollection }
+>;
+
+/**
+ * 地图数据来源：GeoJSON 对象、GeoJSON 文件地址或加载函数
+ */
+export type GeoMapSource = GeoJSONFeatureCollection | string | GeoJSONLoader;
+
+/**
+ * 需要单独摆放位置的区域，例如将海外领地移到主图附近
+ */
+export type GeoSpecialAreas = NonNullable<RegisterMapParams[2]>;
+
+// 已声明但尚未加载的地图
+const pendingMaps = new Map<string, () => Promise<void>>();
+const loadingMaps = new Map<string, Promise<void>>();
+
+async function resolveSource(
+	name: string,
+	source: string | GeoJSONLoader,
+): Promise<GeoJSONFeatureCollection> {
+	if (typeof source === "function") {
+		const result = await source();
+		return "default" in result ? result.default : result;
+	}
+	const response = await fetch(source);
+	if (!response.ok) {
+		throw new Error(
+			`[lazyhand-tool] 加载地图 "${name}" 失败：${response.status} ${response.statusText}`,
+		);
+	}
+	return response.json();
+}
+
+/**
+ * 注册地图
+ * @description 传入 GeoJSON 对象时立即注册；传入地址或加载函数时只记录来源，
+ * Echarts 组件与 useEcharts 会在首次绘制引用该地图的配置前加载，
+ * 服务端渲染等直接使用实例的场景需先调用 {@link loadGeoMap}
+ * @param name - 地图名称，对应 `geo.map` 或 `series.map`
+ * @param source - GeoJSON 对象、GeoJSON 文件地址或加载函数
+ * @param specialAreas - 需要单独摆放位置的区域
+ * @example
+ * ```ts
+ * registerGeoMap("china", chinaJson)
+ * registerGeoMap("world", "/geo/world.json")
+ * registerGeoMap("usa", () => import("./usa.json"), {
+ *   Alaska: { left: -131, top: 25, width: 15 },
+ * })
+ * ```
+ */
+export function registerGeoMap(
+	name: string,
+	source: GeoMapSource,
+	specialAreas?: GeoSpecialAreas,
+): void {
+	const register = (geoJson: GeoJSONFeatureCollection) => {
+		echarts.registerMap(name, geoJson as RegisterMapParams[1], specialAreas);
+	};
+	if (typeof source === "string" || typeof source === "function") {
+		pendingMaps.set(name, async () => {
+			register(await resolveSource(name, source));
+		});
+		return;
+	}
+	pendingMaps.delete(name);
+	register(source);
+}
+
+/**
+ * 加载通过地址或加载函数注册的地图，同一地图只会加载一次
+ * @param name - 地图名称
+ * @returns 加载完成的 Promise；地图已可用或未通过本模块注册时立即完成
+ */
+export function loadGeoMap(name: string): Promise<void> {
+	const load = pendingMaps.get(name);
+	if (!load) return Promise.resolve();
+	let promise = loadingMaps.get(name);
+	if (!promise) {
+		promise = load()
+			.then(() => {
+				// 加载期间可能被重新注册，只移除本次加载的来源
+				if (pendingMaps.get(name) === load) {
+					pendingMaps.delete(name);
+				}
+			})
+			.finally(() => {
+				loadingMaps.delete(name);
+			});
+		loadingMaps.set(name, promise);
+	}
+	return promise;
+}
+
+/**
+ * 查找配置中引用了但尚未加载的地图
+ * @param option - 图表配置
+ * @returns 地图名称列表
+ */
+export function getPendingGeoMaps(option: Record<string, any>): string[] {
+	const names = new Set<string>();
+	// 兼容 baseOption + options 的写法
+	const parts = [option, option.baseOption, ...toArray(option.options)];
+	for (const part of parts) {
+		if (!part) continue;
+		for (const geo of toArray<Record<string, any>>(part.geo)) {
+			if (geo?.map) names.add(geo.map);
+		}
+		for (const series of toArray<Record<string, any>>(part.series)) {
+			if (series?.type === "map" && series.map) names.add(series.map);
+		}
+	}
+	return [...names].filter((name) => pendingMaps.has(name));
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { echarts } from "../../config";
+import { getPendingGeoMaps, loadGeoMap, registerGeoMap } from "../index";
+
+const square = (name: string) => ({
+	type: "FeatureCollection",
+	features: [
+		{
+			type: "Feature",
+			properties: { name },
+			geometry: {
+				type: "Polygon",
+				coordinates: [
+					[
+						[0, 0],
+						[0, 1],
+						[1, 1],
+						[1, 0],
+						[0, 0],
+					],
+				],
+			},
+		},
+	],
+});
+
+describe("registerGeoMap", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("should register GeoJSON objects immediately", () => {
+		registerGeoMap("square", square("A"));
+
+		expect(echarts.getMap("square")).toBeTruthy();
+		expect(getPendingGeoMaps({ geo: { map: "square" } })).toEqual([]);
+	});
+
+	it("should load GeoJSON from a url before use", async () => {
+		const fetch = vi.fn().mockResolvedValue({
+			ok: true,
+			json: () => Promise.resolve(square("B")),
+		});
+		vi.stubGlobal("fetch", fetch);
+		registerGeoMap("remote", "/geo/remote.json");
+
+		expect(fetch).not.toHaveBeenCalled();
+		expect(
+			getPendingGeoMaps({ series: [{ type: "map", map: "remote" }] }),
+		).toEqual(["remote"]);
+
+		await Promise.all([loadGeoMap("remote"), loadGeoMap("remote")]);
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(fetch).toHaveBeenCalledWith("/geo/remote.json");
+		expect(echarts.getMap("remote")).toBeTruthy();
+		expect(getPendingGeoMaps({ geo: [{ map: "remote" }] })).toEqual([]);
+	});
+
+	it("should unwrap module default exports", async () => {
+		registerGeoMap("module", () => Promise.resolve({ default: square("C") }));
+		await loadGeoMap("module");
+
+		expect(echarts.getMap("module")).toBeTruthy();
+	});
+
+	it("should keep the map pending when loading fails", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: "" }),
+		);
+		registerGeoMap("missing", "/geo/missing.json");
+
+		await expect(loadGeoMap("missing")).rejects.toThrow("missing");
+		expect(getPendingGeoMaps({ geo: { map: "missing" } })).toEqual(["missing"]);
+	});
+
+	it("should find maps in baseOption and options", () => {
+		registerGeoMap("timeline", () => Promise.resolve(square("D")));
+
+		expect(
+			getPendingGeoMaps({
+				baseOption: { geo: { map: "timeline" } },
+				options: [{ series: [{ type: "map", map: "timeline" }] }],
+			}),
+		).toEqual(["timeline"]);
+	});
+});
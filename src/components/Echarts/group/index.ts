@@ -0,0 +1,113 @@
+import type { EChartsType } from "echarts/core";
+import type { InjectionKey, Ref } from "vue";
+import {
+	getCurrentInstance,
+	getCurrentScope,
+	onScopeDispose,
+	provide,
+	ref,
+} from "vue";
+import { echarts } from "../config";
+
+/**
+ * 由 {@link useChartGroup} 提供给后代 Echarts 组件的分组名
+ */
+export const CHART_GROUP_KEY: InjectionKey<Ref<string>> = Symbol(
+	"lazyhand-chart-group",
+);
+
+// 每个分组当前加入的图表数量，最后一个图表离开时才断开联动
+const groupMembers = new Map<string, number>();
+let uid = 0;
+
+/**
+ * 将图表加入联动分组
+ * @description 同一分组内的图表会同步 tooltip、axisPointer 与 dataZoom
+ */
+export function joinGroup(instance: EChartsType, group: string): void {
+	if (instance.group === group) return;
+	leaveGroup(instance);
+	instance.group = group;
+	const count = groupMembers.get(group) ?? 0;
+	groupMembers.set(group, count + 1);
+	if (count === 0) {
+		echarts.connect(group);
+	}
+}
+
+/**
+ * 将图表移出当前所在的联动分组
+ */
+export function leaveGroup(instance: EChartsType): void {
+	const group = instance.group;
+	if (!group) return;
+	instance.group = "";
+	const count = (groupMembers.get(group) ?? 1) - 1;
+	if (count > 0) {
+		groupMembers.set(group, count);
+	} else {
+		groupMembers.delete(group);
+		echarts.disconnect(group);
+	}
+}
+
+export interface UseChartGroupResult {
+	/**
+	 * 分组名，可传给其他父组件下 Echarts 的 `group` 属性实现跨组件联动
+	 */
+	group: Ref<string>;
+	/**
+	 * 手动连接分组
+	 */
+	connect: () => void;
+	/**
+	 * 手动断开分组联动
+	 */
+	disconnect: () => void;
+}
+
+/**
+ * 图表联动分组 Hook
+ * @description 为当前组件的所有后代 Echarts 组件提供默认分组，组件挂载时自动加入、卸载时自动离开
+ * @param name - 分组名，不传则自动生成；在不同父组件中使用相同的名称即可跨组件联动
+ * @returns 分组名与连接控制方法
+ * @example
+ * ```vue
+ * <script setup>
+ * const { group } = useChartGroup("traffic")
+ * </script>
+ *
+ * <template>
+ *   <Echarts :option="cpu" />
+ *   <Echarts :option="memory" />
+ *   <!-- 其他父组件中：<Echarts group="traffic" :option="disk" /> -->
+ * </template>
+ * ```
+ */
+export function useChartGroup(name?: string): UseChartGroupResult {
+	const group = ref(name ?? `lazyhand-chart-group-${++uid}`);
+	if (getCurrentInstance()) {
+		provide(CHART_GROUP_KEY, group);
+	}
+
+	let connected = false;
+	const connect = () => {
+		connected = true;
+		echarts.connect(group.value);
+	};
+	const disconnect = () => {
+		connected = false;
+		echarts.disconnect(group.value);
+	};
+
+	if (getCurrentScope()) {
+		onScopeDispose(() => {
+			// 仍有图表在分组内时由最后离开的图表负责断开
+			if (connected && !groupMembers.has(group.value)) {
+				disconnect();
+			}
+		});
+	}
+
+	return { group, connect, disconnect };
+}
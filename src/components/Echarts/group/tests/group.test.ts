@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { effectScope } from "vue";
+import { joinGroup, leaveGroup, useChartGroup } from "../index";
+
+const { connect, disconnect } = vi.hoisted(() => ({
+	connect: vi.fn(),
+	disconnect: vi.fn(),
+}));
+
+vi.mock("../../config", () => ({
+	echarts: { connect, disconnect },
+}));
+
+function createInstance() {
+	return { group: "" } as any;
+}
+
+describe("chart group", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should connect a group when the first chart joins", () => {
+		const a = createInstance();
+		const b = createInstance();
+
+		joinGroup(a, "sales");
+		joinGroup(b, "sales");
+
+		expect(a.group).toBe("sales");
+		expect(b.group).toBe("sales");
+		expect(connect).toHaveBeenCalledTimes(1);
+		expect(connect).toHaveBeenCalledWith("sales");
+	});
+
+	it("should disconnect a group only when the last chart leaves", () => {
+		const a = createInstance();
+		const b = createInstance();
+		joinGroup(a, "traffic");
+		joinGroup(b, "traffic");
+
+		leaveGroup(a);
+		expect(a.group).toBe("");
+		expect(disconnect).not.toHaveBeenCalled();
+
+		leaveGroup(b);
+		expect(disconnect).toHaveBeenCalledWith("traffic");
+	});
+
+	it("should move a chart between groups", () => {
+		const chart = createInstance();
+		joinGroup(chart, "first");
+		joinGroup(chart, "second");
+
+		expect(chart.group).toBe("second");
+		expect(disconnect).toHaveBeenCalledWith("first");
+		expect(connect).toHaveBeenCalledWith("second");
+	});
+
+	it("should ignore charts outside any group", () => {
+		leaveGroup(createInstance());
+		expect(disconnect).not.toHaveBeenCalled();
+	});
+
+	it("should generate unique group names", () => {
+		const scope = effectScope();
+		const [first, second] =
+			scope.run(() => [useChartGroup(), useChartGroup()]) ?? [];
+
+		expect(first?.group.value).not.toBe(second?.group.value);
+		expect(useChartGroup("shared").group.value).toBe("shared");
+		scope.stop();
+	});
+
+	it("should disconnect a manually connected group on dispose", () => {
+		const scope = effectScope();
+		const result = scope.run(() => useChartGroup("manual"));
+
+		result?.connect();
+		expect(connect).toHaveBeenCalledWith("manual");
+
+		scope.stop();
+		expect(disconnect).toHaveBeenCalledWith("manual");
+	});
+});
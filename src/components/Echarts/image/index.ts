@@ -0,0 +1,87 @@
+import type { EChartsType } from "echarts/core";
+import type { ECOption } from "../config";
+import { renderChartToSVGString } from "../ssr";
+
+export type ImageType = "png" | "jpeg" | "svg";
+
+export interface ExportImageOptions {
+	/**
+	 * 图片格式，默认 png
+	 */
+	type?: ImageType;
+	/**
+	 * 导出像素比，默认为设备像素比
+	 */
+	pixelRatio?: number;
+	/**
+	 * 背景色，默认使用图表背景色
+	 */
+	backgroundColor?: string;
+	/**
+	 * 导出时忽略的组件，例如 ["toolbox"]
+	 */
+	excludeComponents?: string[];
+}
+
+/**
+ * 将图表导出为图片 data URL
+ * @description png/jpeg 直接读取当前画布；svg 基于当前配置以服务端渲染模式重新输出，
+ * 因此 canvas 渲染器下同样可以导出矢量图
+ * @param instance - 图表实例
+ * @param options - 导出配置
+ * @param theme - 图表主题，导出 svg 时使用
+ * @returns 图片的 data URL
+ */
+export function exportChartImage(
+	instance: EChartsType,
+	options: ExportImageOptions = {},
+	theme?: string | object | null,
+): string {
+	const {
+		type = "png",
+		pixelRatio,
+		backgroundColor,
+		excludeComponents,
+	} = options;
+
+	if (type === "svg") {
+		const option = instance.getOption() as ECOption;
+		const svg = renderChartToSVGString(
+			backgroundColor ? { ...option, backgroundColor } : option,
+			{ width: instance.getWidth(), height: instance.getHeight(), theme },
+		);
+		return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+	}
+
+	return instance.getDataURL({
+		type,
+		pixelRatio,
+		backgroundColor,
+		excludeComponents,
+	});
+}
+
+/**
+ * 根据文件名后缀推断图片格式
+ */
+export function inferImageType(filename: string): ImageType | undefined {
+	const ext = filename.split(".").pop()?.toLowerCase();
+	if (ext === "png" || ext === "svg" || ext === "jpeg") return ext;
+	if (ext === "jpg") return "jpeg";
+	return undefined;
+}
+
+/**
+ * 通过临时链接触发浏览器下载
+ * @param href - data URL 或 Blob URL
+ * @param filename - 下载文件名
+ */
+export function downloadFile(href: string, filename: string): void {
+	const link = document.createElement("a");
+	link.href = href;
+	link.download = filename;
+	link.style.display = "none";
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+}
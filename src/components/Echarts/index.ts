@@ -1,4 +1,161 @@
 export { default as Echarts } from "./Echarts.vue";
+export { default as GaugeCard } from "./kpi/GaugeCard.vue";
+export { default as LiquidFillCard } from "./kpi/LiquidFillCard.vue";
+export { default as SparklineCard } from "./kpi/SparklineCard.vue";
 
-export type { ECOption } from "./config";
-export { echarts } from "./config";
+export type {
+	ECOption,
+	EchartsLocaleObject,
+	EchartsModule,
+	LiquidFillDataItem,
+	LiquidFillSeriesOption,
+} from "./config";
+export {
+	echarts,
+	findUnregisteredTypes,
+	registerEchartsModules,
+	registerLocale,
+	registerTheme,
+} from "./config";
+export type {
+	EchartsAxisAreaEvent,
+	EchartsBrushArea,
+	EchartsBrushEvent,
+	EchartsBrushSelectedEvent,
+	EchartsCursorTakenEvent,
+	EchartsDataRangeEvent,
+	EchartsDataZoomEvent,
+	EchartsEmits,
+	EchartsEventName,
+	EchartsGeoSelectEvent,
+	EchartsLegendEvent,
+	EchartsLegendScrollEvent,
+	EchartsMagicTypeEvent,
+	EchartsRenderedEvent,
+	EchartsRoamEvent,
+	EchartsTimelineChangedEvent,
+	EchartsTimelinePlayEvent,
+} from "./events";
+export { RingBuffer, useChartStream } from "./stream";
+export type {
+	ChartStreamTarget,
+	PushPointsOptions,
+	UseChartStreamOptions,
+	UseChartStreamResult,
+} from "./stream";
+export { renderChartToSVGString } from "./ssr";
+export type { RenderChartOptions } from "./ssr";
+export type { ExportImageOptions, ImageType } from "./image";
+export type { EchartsTheme } from "./theme";
+export { useChartGroup } from "./group";
+export type { UseChartGroupResult } from "./group";
+export type { EchartsLazyOptions } from "./lazy";
+export {
+	barChart,
+	gaugeChart,
+	lineChart,
+	liquidFillChart,
+	pieChart,
+	scatterChart,
+} from "./builders";
+export type {
+	BarChartOptions,
+	DatasetRecord,
+	GaugeChartOptions,
+	LineChartOptions,
+	LiquidFillChartOptions,
+	PieChartOptions,
+	ScatterChartOptions,
+} from "./builders";
+export type { EchartsAriaOptions } from "./aria";
+export {
+	copyText,
+	downloadData,
+	inferDataFormat,
+	serializeDataTable,
+	toDataTable,
+} from "./table";
+export type {
+	DataCell,
+	DataFormat,
+	DataTable,
+	ExportDataOptions,
+} from "./table";
+export { diffOption } from "./update";
+export type { EchartsUpdateOptions, OptionPatch } from "./update";
+export { isOptionEmpty } from "./state";
+export type { EchartsLoadingOptions } from "./state";
+export { loadGeoMap, registerGeoMap } from "./geo";
+export type {
+	GeoJSONFeatureCollection,
+	GeoJSONLoader,
+	GeoMapSource,
+	GeoSpecialAreas,
+} from "./geo";
+export type {
+	EchartsLegendSelected,
+	EchartsSelection,
+	EchartsSelectionItem,
+	EchartsZoom,
+} from "./model";
+export { runPipeline, useChartDataset } from "./transform";
+export type {
+	AggregateMethod,
+	FilterCondition,
+	FilterConfig,
+	GroupByConfig,
+	Measure,
+	PivotConfig,
+	SortConfig,
+	TopNConfig,
+	TransformRow,
+	TransformStep,
+} from "./transform";
+export type { TooltipParams } from "./tooltip";
+export { downsample, lttb, minMax } from "./large";
+export type {
+	EchartsLargeDataOptions,
+	SamplePoint,
+	SamplingMethod,
+} from "./large";
+export type { EchartsAnnotation, EchartsThreshold } from "./annotation";
+export { applyFrame, useChartPlayback } from "./playback";
+export type {
+	ChartPlayback,
+	EchartsFrames,
+	EchartsPlaybackOptions,
+} from "./playback";
+export { applyResponsive, matchRules } from "./responsive";
+export type { ContainerSize, EchartsResponsiveRule } from "./responsive";
+export { applyFormats, createFormatter } from "./format";
+export type { FormatHint, FormatPreset, FormattedOption } from "./format";
+export {
+	applyDrillLevel,
+	resolveDrillPath,
+	useChartDrillDown,
+} from "./drilldown";
+export type {
+	ChartDrillDown,
+	EchartsBreadcrumb,
+	EchartsDrillDownOptions,
+	EchartsDrillLevel,
+	EchartsDrillNode,
+} from "./drilldown";
+export {
+	formatKpiDelta,
+	formatKpiValue,
+	gaugeCardOption,
+	kpiTrend,
+	liquidFillCardOption,
+	resolveKpiColor,
+	sparklineCardOption,
+} from "./kpi";
+export type {
+	GaugeCardProps,
+	KpiThreshold,
+	KpiTrend,
+	LiquidFillCardProps,
+	SparklineCardProps,
+} from "./kpi";
+export { useChartResizeNotifier } from "./resize";
+export type { ChartResizeNotifier } from "./resize";
@@ -0,0 +1,298 @@
+import type { GaugeSeriesOption } from "echarts/charts";
+import type { ECOption } from "../config";
+import type { EchartsTheme } from "../theme";
+import { clamp } from "../utils";
+
+/**
+ * 阈值色带：数值不超过 value 时使用对应颜色，超过最后一个阈值时沿用最后一个颜色
+ */
+export interface KpiThreshold {
+	value: number;
+	color: string;
+}
+
+interface KpiCardBaseProps {
+	/**
+	 * 当前值
+	 */
+	value: number;
+	/**
+	 * 卡片标题
+	 */
+	title?: string;
+	/**
+	 * 目标值
+	 */
+	target?: number;
+	thresholds?: KpiThreshold[];
+	/**
+	 * 数值单位，例如 `%`、`万元`
+	 */
+	unit?: string;
+	/**
+	 * 与上期相比的变化量，正数为上升
+	 */
+	delta?: number;
+	/**
+	 * 变化量的单位，默认 `%`
+	 */
+	deltaUnit?: string;
+	/**
+	 * 小数位数，默认 0
+	 */
+	precision?: number;
+	/**
+	 * 紧凑模式：关闭动画、交互与刻度等装饰，适合在表格或列表中大量渲染
+	 */
+	compact?: boolean;
+	/**
+	 * 图表高度(px)，默认 120，紧凑模式下默认 48
+	 */
+	height?: number;
+	theme?: EchartsTheme;
+	renderer?: "canvas" | "svg";
+}
+
+export interface LiquidFillCardProps extends KpiCardBaseProps {
+	/**
+	 * 满水位对应的值，默认为 target，未设置 target 时为 100
+	 */
+	max?: number;
+	shape?: string;
+}
+
+export interface GaugeCardProps extends KpiCardBaseProps {
+	/**
+	 * 量程，默认 0 ~ 100
+	 */
+	min?: number;
+	max?: number;
+}
+
+export interface SparklineCardProps extends KpiCardBaseProps {
+	/**
+	 * 趋势数据，按时间顺序排列
+	 */
+	data: number[];
+	/**
+	 * 是否显示面积，默认 true
+	 */
+	area?: boolean;
+}
+
+export type KpiTrend = "up" | "down" | "flat";
+
+const DEFAULT_COLOR = "#165dff";
+
+/**
+ * 根据阈值色带取数值对应的颜色
+ * @param value - 数值
+ * @param thresholds - 阈值色带，无需排序
+ * @param fallback - 未设置阈值时的颜色
+ */
+export function resolveKpiColor(
+	value: number,
+	thresholds: readonly KpiThreshold[] | undefined,
+	fallback = DEFAULT_COLOR,
+): string {
+	if (!thresholds?.length) return fallback;
+	const sorted = [...thresholds].sort((a, b) => a.value - b.value);
+	return (
+		sorted.find((item) => value <= item.value) ?? sorted[sorted.length - 1]
+	).color;
+}
+
+/**
+ * 格式化数值与单位
+ */
+export function formatKpiValue(
+	value: number | undefined,
+	unit = "",
+	precision = 0,
+): string {
+	if (value === undefined || !Number.isFinite(value)) return "-";
+	return `${value.toFixed(precision)}${unit}`;
+}
+
+/**
+ * 变化量的趋势方向
+ */
+export function kpiTrend(delta: number | undefined): KpiTrend | undefined {
+	if (delta === undefined || Number.isNaN(delta)) return undefined;
+	if (delta > 0) return "up";
+	return delta < 0 ? "down" : "flat";
+}
+
+/**
+ * 格式化变化量，上升带 `+` 号
+ */
+export function formatKpiDelta(
+	delta: number | undefined,
+	unit = "%",
+	precision = 1,
+): string {
+	if (delta === undefined || Number.isNaN(delta)) return "";
+	return `${delta > 0 ? "+" : ""}${delta.toFixed(precision)}${unit}`;
+}
+
+/**
+ * 水球图卡片配置
+ * @description 水位为 value / max，颜色按 value 取阈值色带
+ */
+export function liquidFillCardOption(props: LiquidFillCardProps): ECOption {
+	const { value, target, unit, precision, compact } = props;
+	const max = props.max ?? target ?? 100;
+	const level = max ? clamp(value / max, 0, 1) : 0;
+	const color = resolveKpiColor(value, props.thresholds);
+	return {
+		series: [
+			{
+				type: "liquidFill",
+				shape: props.shape ?? "circle",
+				radius: compact ? "90%" : "80%",
+				data: [level],
+				color: [color],
+				waveAnimation: !compact,
+				animation: !compact,
+				silent: compact,
+				backgroundStyle: { color: "transparent" },
+				outline: compact
+					? { show: false }
+					: {
+							show: true,
+							borderDistance: 4,
+							itemStyle: { borderColor: color, borderWidth: 2 },
+						},
+				label: {
+					fontSize: compact ? 14 : 24,
+					color,
+					insideColor: "#fff",
+					formatter: () => formatKpiValue(value, unit, precision),
+				},
+			},
+		],
+	};
+}
+
+/**
+ * 仪表盘卡片配置
+ * @description 阈值转换为表盘色带，目标值以细指针标出
+ */
+export function gaugeCardOption(props: GaugeCardProps): ECOption {
+	const { value, target, unit, precision, compact, thresholds } = props;
+	const min = props.min ?? 0;
+	const max = props.max ?? 100;
+	const range = max - min || 1;
+	const color = resolveKpiColor(value, thresholds);
+	const bands = thresholds?.length
+		? [...thresholds]
+				.sort((a, b) => a.value - b.value)
+				.map(
+					(item) =>
+						[clamp((item.value - min) / range, 0, 1), item.color] as [
+							number,
+							string,
+						],
+				)
+		: undefined;
+	// 色带需要覆盖整个表盘
+	if (bands && bands[bands.length - 1][0] < 1) {
+		bands.push([1, bands[bands.length - 1][1]]);
+	}
+	const data: NonNullable<GaugeSeriesOption["data"]> = [
+		{ value: clamp(value, min, max) },
+	];
+	if (target !== undefined && !compact) {
+		data.push({
+			value: clamp(target, min, max),
+			pointer: { width: 2, length: "90%", itemStyle: { color: "#86909c" } },
+			title: { show: false },
+			detail: { show: false },
+		});
+	}
+	return {
+		series: [
+			{
+				type: "gauge",
+				min,
+				max,
+				radius: compact ? "100%" : "90%",
+				center: ["50%", compact ? "60%" : "55%"],
+				animation: !compact,
+				silent: compact,
+				itemStyle: { color },
+				progress: { show: !bands, width: compact ? 6 : 10 },
+				pointer: { show: !compact, itemStyle: { color } },
+				axisLine: {
+					lineStyle: {
+						width: compact ? 6 : 10,
+						...(bands ? { color: bands } : {}),
+					},
+				},
+				axisTick: { show: !compact },
+				splitLine: { show: !compact, length: 8 },
+				axisLabel: { show: !compact, distance: 14, fontSize: 10 },
+				anchor: { show: false },
+				title: { show: false },
+				detail: {
+					valueAnimation: !compact,
+					offsetCenter: [0, compact ? "10%" : "60%"],
+					fontSize: compact ? 12 : 20,
+					color,
+					formatter: () => formatKpiValue(value, unit, precision),
+				},
+				data,
+			},
+		],
+	};
+}
+
+/**
+ * 迷你趋势图卡片配置
+ * @description 不显示坐标轴与网格，颜色按最后一个值取阈值色带，目标值以虚线标出
+ */
+export function sparklineCardOption(props: SparklineCardProps): ECOption {
+	const { data, target, unit, precision, compact, area = true } = props;
+	const color = resolveKpiColor(props.value, props.thresholds);
+	return {
+		animation: !compact,
+		grid: { top: 4, right: 2, bottom: 4, left: 2 },
+		xAxis: {
+			type: "category",
+			show: false,
+			boundaryGap: false,
+			data: data.map((_, index) => index),
+		},
+		yAxis: { type: "value", show: false, scale: true },
+		tooltip: compact
+			? undefined
+			: {
+					trigger: "axis",
+					axisPointer: { type: "none" },
+					valueFormatter: (item) =>
+						formatKpiValue(Number(item), unit, precision),
+				},
+		series: [
+			{
+				type: "line",
+				data,
+				silent: compact,
+				smooth: true,
+				showSymbol: false,
+				lineStyle: { width: compact ? 1 : 2, color },
+				itemStyle: { color },
+				areaStyle: area ? { color, opacity: 0.15 } : undefined,
+				markLine:
+					target !== undefined
+						? {
+								silent: true,
+								symbol: "none",
+								label: { show: false },
+								lineStyle: { type: "dashed", color: "#86909c" },
+								data: [{ yAxis: target }],
+							}
+						: undefined,
+			},
+		],
+	};
+}
@@ -0,0 +1,6 @@
+import { markRegisteredTypes } from "../config";
+// main 入口是依赖完整版 echarts 的 UMD 包，改用 ES 模块入口，与 echarts/core 共用同一实例。
+// 插件依赖浏览器环境，只随水球图卡片引入，服务端渲染入口不会加载
+import "echarts-liquidfill/index.js";
+
+markRegisteredTypes(["series.liquidFill"]);
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render } from "@testing-library/vue";
+import { nextTick } from "vue";
+import GaugeCard from "../GaugeCard.vue";
+import LiquidFillCard from "../LiquidFillCard.vue";
+import SparklineCard from "../SparklineCard.vue";
+import { echarts } from "../../config";
+import { mockChartContainer } from "../../tests/setup";
+import {
+	formatKpiDelta,
+	gaugeCardOption,
+	kpiTrend,
+	liquidFillCardOption,
+	resolveKpiColor,
+	sparklineCardOption,
+} from "../index";
+
+const thresholds = [
+	{ value: 80, color: "#00b42a" },
+	{ value: 60, color: "#f53f3f" },
+];
+
+describe("kpi helpers", () => {
+	it("should pick the color band of a value", () => {
+		expect(resolveKpiColor(50, thresholds)).toBe("#f53f3f");
+		expect(resolveKpiColor(60, thresholds)).toBe("#f53f3f");
+		expect(resolveKpiColor(70, thresholds)).toBe("#00b42a");
+		expect(resolveKpiColor(95, thresholds)).toBe("#00b42a");
+		expect(resolveKpiColor(95, [], "#000")).toBe("#000");
+	});
+
+	it("should format trend deltas", () => {
+		expect(formatKpiDelta(3.25)).toBe("+3.3%");
+		expect(formatKpiDelta(-2, "pt", 0)).toBe("-2pt");
+		expect(formatKpiDelta(undefined)).toBe("");
+		expect([kpiTrend(1), kpiTrend(-1), kpiTrend(0)]).toEqual([
+			"up",
+			"down",
+			"flat",
+		]);
+	});
+});
+
+describe("kpi options", () => {
+	it("should fill liquid relative to the target", () => {
+		const series = (
+			liquidFillCardOption({ value: 45, target: 60, thresholds }).series as any
+		)[0];
+
+		expect(series.data).toEqual([0.75]);
+		expect(series.color).toEqual(["#f53f3f"]);
+		expect(series.label.formatter()).toBe("45");
+	});
+
+	it("should turn thresholds into gauge bands and mark the target", () => {
+		const series = (
+			gaugeCardOption({ value: 72, target: 90, unit: "%", thresholds })
+				.series as any
+		)[0];
+
+		expect(series.axisLine.lineStyle.color).toEqual([
+			[0.6, "#f53f3f"],
+			[0.8, "#00b42a"],
+			[1, "#00b42a"],
+		]);
+		expect(series.progress.show).toBe(false);
+		expect(series.data.map((item: any) => item.value)).toEqual([72, 90]);
+		expect(series.detail.formatter()).toBe("72%");
+	});
+
+	it("should drop decorations in compact mode", () => {
+		const gauge = (
+			gaugeCardOption({ value: 72, target: 90, compact: true }).series as any
+		)[0];
+		const sparkline = sparklineCardOption({
+			value: 3,
+			data: [1, 2, 3],
+			target: 2,
+			compact: true,
+		}) as any;
+
+		expect(gauge.data).toHaveLength(1);
+		expect(gauge.axisTick.show).toBe(false);
+		expect(gauge.pointer.show).toBe(false);
+		expect(sparkline.tooltip).toBeUndefined();
+		expect(sparkline.animation).toBe(false);
+		expect(sparkline.xAxis.show).toBe(false);
+		expect(sparkline.series[0].markLine.data).toEqual([{ yAxis: 2 }]);
+	});
+});
+
+describe("kpi cards", () => {
+	beforeEach(() => {
+		mockChartContainer(200, 120);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should render title, delta and target around the chart", async () => {
+		const wrapper = render(GaugeCard, {
+			props: {
+				renderer: "svg",
+				title: "完成率",
+				value: 72,
+				target: 90,
+				unit: "%",
+				delta: -1.5,
+			},
+		});
+		await nextTick();
+
+		expect(wrapper.getByText("完成率")).toBeTruthy();
+		expect(wrapper.getByText("-1.5%").className).toContain("--down");
+		expect(wrapper.getByText("目标 90%")).toBeTruthy();
+		expect(wrapper.container.querySelector("svg")).not.toBeNull();
+		wrapper.unmount();
+	});
+
+	it("should render liquid fill and sparkline cards", async () => {
+		const liquid = render(LiquidFillCard, {
+			props: { renderer: "svg", value: 0.6, max: 1, delta: 2 },
+		});
+		const sparkline = render(SparklineCard, {
+			props: {
+				renderer: "svg",
+				title: "日活",
+				value: 1280,
+				unit: "人",
+				data: [900, 1100, 1280],
+				compact: true,
+			},
+		});
+		await nextTick();
+
+		expect(liquid.getByText("+2.0%").className).toContain("--up");
+		expect(liquid.container.querySelector("svg")).not.toBeNull();
+		const dom = liquid.container.querySelector<HTMLElement>(
+			"[_echarts_instance_]",
+		);
+		const series = dom && echarts.getInstanceByDom(dom)?.getOption().series;
+		expect(series).toMatchObject([{ type: "liquidFill" }]);
+		// 紧凑模式只保留主数值与图表
+		expect(sparkline.getByText("1280人")).toBeTruthy();
+		expect(sparkline.queryByText("日活")).toBeNull();
+		liquid.unmount();
+		sparkline.unmount();
+	});
+});
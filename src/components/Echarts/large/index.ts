@@ -0,0 +1,443 @@
+import type { EChartsType } from "echarts/core";
+import type { ComputedRef, MaybeRefOrGetter } from "vue";
+import type { UseEchartsResult } from "../../../hooks";
+import type { AnyOption } from "../utils";
+import {
+	tryOnMounted,
+	tryOnScopeDispose,
+	useDebounceFn,
+	useResizeObserver,
+} from "@vueuse/core";
+import { computed, ref, toValue } from "vue";
+import { useTimeSlice } from "../../../hooks";
+import { readZoom } from "../model";
+import { itemValue, toArray } from "../utils";
+
+/**
+ * 降采样算法
+ * - lttb：保留视觉形状，适合折线
+ * - minmax：保留每个区间的最大最小值，适合需要保留峰值的场景
+ */
+export type SamplingMethod = "lttb" | "minmax";
+
+/**
+ * 参与降采样的数据点，`[x, y]`
+ */
+export type SamplePoint = readonly [number, number];
+
+export interface EchartsLargeDataOptions {
+	/**
+	 * 折线与柱状系列的降采样算法，默认 lttb；设为 false 时只分片加载
+	 */
+	sampling?: SamplingMethod | false;
+	/**
+	 * 散点、特效散点与线图系列分片写入时每片的数据量，默认 20000；设为 0 时一次性写入。
+	 * 其余系列不支持 appendData，始终一次性写入
+	 */
+	chunkSize?: number;
+	/**
+	 * 分片之间的间隔(ms)，默认 16
+	 */
+	interval?: number;
+}
+
+/**
+ * 降采样后为系列补充的 id 前缀，缩放时按 id 只更新这些系列
+ */
+const SERIES_ID_PREFIX = "lazyhand-large-";
+const SAMPLING_TYPES = ["line", "bar"];
+/**
+ * 支持 appendData 增量写入的系列
+ */
+const CHUNK_TYPES = ["scatter", "effectScatter", "lines"];
+/**
+ * 容器宽度未知（例如隐藏时）按该宽度采样，显示后随宽度变化重新采样
+ */
+const FALLBACK_WIDTH = 1000;
+
+function range(start: number, end: number): number[] {
+	return Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+}
+
+function lttbIndexes(
+	points: readonly SamplePoint[],
+	start: number,
+	end: number,
+	size: number,
+): number[] {
+	const length = end - start;
+	if (length <= size) return range(start, end);
+	if (size < 3) return [start, end - 1];
+	const result = [start];
+	const every = (length - 2) / (size - 2);
+	let a = start;
+	for (let i = 0; i < size - 2; i++) {
+		// 下一个区间的平均点作为三角形的第三个顶点
+		const nextStart = start + Math.floor((i + 1) * every) + 1;
+		const nextEnd = Math.min(start + Math.floor((i + 2) * every) + 1, end);
+		let avgX = 0;
+		let avgY = 0;
+		for (let j = nextStart; j < nextEnd; j++) {
+			avgX += points[j][0];
+			avgY += points[j][1];
+		}
+		avgX /= nextEnd - nextStart;
+		avgY /= nextEnd - nextStart;
+
+		const bucketStart = start + Math.floor(i * every) + 1;
+		const bucketEnd = start + Math.floor((i + 1) * every) + 1;
+		const [ax, ay] = points[a];
+		let maxArea = -1;
+		let next = bucketStart;
+		for (let j = bucketStart; j < bucketEnd; j++) {
+			const [x, y] = points[j];
+			const area = Math.abs((ax - avgX) * (y - ay) - (ax - x) * (avgY - ay));
+			if (area > maxArea) {
+				maxArea = area;
+				next = j;
+			}
+		}
+		result.push(next);
+		a = next;
+	}
+	result.push(end - 1);
+	return result;
+}
+
+function minMaxIndexes(
+	points: readonly SamplePoint[],
+	start: number,
+	end: number,
+	size: number,
+): number[] {
+	const length = end - start;
+	if (length <= size) return range(start, end);
+	// 首尾各占一个点，其余每个区间保留最小值与最大值两个点
+	const buckets = Math.max(1, Math.floor((size - 2) / 2));
+	const every = (length - 2) / buckets;
+	const result = [start];
+	for (let i = 0; i < buckets; i++) {
+		const bucketStart = start + Math.floor(i * every) + 1;
+		const bucketEnd = start + Math.floor((i + 1) * every) + 1;
+		let min = bucketStart;
+		let max = bucketStart;
+		for (let j = bucketStart; j < bucketEnd; j++) {
+			if (points[j][1] < points[min][1]) min = j;
+			if (points[j][1] > points[max][1]) max = j;
+		}
+		result.push(
+			...(min === max ? [min] : [Math.min(min, max), Math.max(min, max)]),
+		);
+	}
+	result.push(end - 1);
+	return result;
+}
+
+const SAMPLERS = { lttb: lttbIndexes, minmax: minMaxIndexes };
+
+/**
+ * LTTB（Largest-Triangle-Three-Buckets）降采样
+ * @param points - 按 x 升序排列的数据点
+ * @param size - 保留的点数，首尾两点始终保留
+ * @returns 原数据点的子集
+ */
+export function lttb<T extends SamplePoint>(
+	points: readonly T[],
+	size: number,
+): T[] {
+	return lttbIndexes(points, 0, points.length, size).map((i) => points[i]);
+}
+
+/**
+ * 最大最小值降采样，保留每个区间内的峰值与谷值
+ * @param points - 按 x 升序排列的数据点
+ * @param size - 最多保留的点数，首尾两点始终保留
+ * @returns 原数据点的子集
+ */
+export function minMax<T extends SamplePoint>(
+	points: readonly T[],
+	size: number,
+): T[] {
+	return minMaxIndexes(points, 0, points.length, size).map((i) => points[i]);
+}
+
+function toNumber(value: unknown): number {
+	if (value === null || value === undefined || value === "") return Number.NaN;
+	const number = Number(value);
+	if (!Number.isNaN(number) || typeof value !== "string") return number;
+	return Date.parse(value);
+}
+
+function readPoint(item: unknown, index: number): SamplePoint {
+	const value = itemValue(item);
+	if (!Array.isArray(value)) return [index, toNumber(value)];
+	// 类目轴上的 [类目名, 值] 按索引计算
+	const x = toNumber(value[0]);
+	return [Number.isNaN(x) ? index : x, toNumber(value[1])];
+}
+
+/**
+ * 单值数据项转为 [索引, 值]，抽样后仍落在原来的类目上
+ */
+function keepPosition(item: unknown, index: number): unknown {
+	const value = itemValue(item);
+	if (Array.isArray(value)) return item;
+	return item !== null && typeof item === "object"
+		? { ...item, value: [index, value] }
+		: [index, value];
+}
+
+/**
+ * 对系列数据降采样
+ * @description 支持 `number`、`[x, y]` 与 `{ value }` 形式的数据项，单值数据项会转为 `[索引, 值]`；
+ * 传入缩放窗口时窗口内的数据再单独按 `size` 采样，窗口外保留整体的采样结果
+ * @param data - 按 x 升序排列的系列数据
+ * @param size - 保留的点数
+ * @param method - 降采样算法
+ * @param visibleRange - 缩放窗口 `[startValue, endValue]`
+ * @returns 降采样后的系列数据
+ */
+export function downsample(
+	data: readonly unknown[],
+	size: number,
+	method: SamplingMethod = "lttb",
+	visibleRange?: readonly [number, number],
+): unknown[] {
+	if (data.length <= size) return [...data];
+	const points = data.map(readPoint);
+	const sampler = SAMPLERS[method];
+	const indexes = new Set(sampler(points, 0, points.length, size));
+	if (visibleRange) {
+		// 多取窗口两侧各一个点，使折线延伸到窗口边缘
+		let start = points.findIndex(([x]) => x >= visibleRange[0]);
+		let end = points.findIndex(([x]) => x > visibleRange[1]);
+		if (start === -1) start = points.length;
+		if (end === -1) end = points.length;
+		for (const index of sampler(
+			points,
+			Math.max(0, start - 1),
+			Math.min(points.length, end + 1),
+			size,
+		)) {
+			indexes.add(index);
+		}
+	}
+	return [...indexes]
+		.sort((a, b) => a - b)
+		.map((index) => keepPosition(data[index], index));
+}
+
+function isHorizontal(option: AnyOption, series: AnyOption): boolean {
+	const axis = toArray<AnyOption>(option.yAxis)[series.yAxisIndex ?? 0];
+	return axis?.type === "category";
+}
+
+export interface SampledSeries {
+	id: string;
+	data: readonly unknown[];
+}
+
+export interface DataChunk {
+	seriesIndex: number;
+	data: unknown[];
+}
+
+/**
+ * 大数据量模式下写入图表的配置，以及写入后需要继续处理的数据
+ */
+export interface LargeDataPlan<T extends AnyOption = AnyOption> {
+	/**
+	 * 降采样并截取第一片后的配置
+	 */
+	option: T;
+	/**
+	 * 降采样的系列及其完整数据，缩放时按 id 重新采样
+	 */
+	sampled: SampledSeries[];
+	/**
+	 * 第一片之后需要通过 appendData 追加的数据
+	 */
+	chunks: DataChunk[];
+	/**
+	 * 降采样保留的点数
+	 */
+	size: number;
+}
+
+/**
+ * 计算大数据量模式的采样与分片计划
+ * @description 折线与柱状系列按宽度（每像素两个点）降采样；散点、特效散点与线图系列超出分片大小时截取第一片，
+ * 其余部分放入 chunks；其他系列保持不变
+ * @param option - 图表配置
+ * @param options - 大数据量配置
+ * @param width - 容器宽度(px)
+ * @returns 采样与分片计划，不会修改传入的配置
+ */
+export function planLargeData<T extends AnyOption>(
+	option: T,
+	options: EchartsLargeDataOptions,
+	width: number,
+): LargeDataPlan<T> {
+	const { sampling = "lttb", chunkSize = 20000 } = options;
+	const size = Math.max(2, (width || FALLBACK_WIDTH) * 2);
+	const sampled: SampledSeries[] = [];
+	const chunks: DataChunk[] = [];
+	if (!option.series) return { option, sampled, chunks, size };
+	const series = toArray<AnyOption>(option.series).map((item, seriesIndex) => {
+		const data = item?.data;
+		if (!Array.isArray(data)) return item;
+		if (
+			sampling &&
+			data.length > size &&
+			SAMPLING_TYPES.includes(item.type) &&
+			!isHorizontal(option, item)
+		) {
+			const id = item.id ?? `${SERIES_ID_PREFIX}${seriesIndex}`;
+			sampled.push({ id, data });
+			return { ...item, id, data: downsample(data, size, sampling) };
+		}
+		if (
+			chunkSize > 0 &&
+			data.length > chunkSize &&
+			CHUNK_TYPES.includes(item.type)
+		) {
+			for (let i = chunkSize; i < data.length; i += chunkSize) {
+				chunks.push({ seriesIndex, data: data.slice(i, i + chunkSize) });
+			}
+			return { ...item, data: data.slice(0, chunkSize) };
+		}
+		return item;
+	});
+	return { option: { ...option, series }, sampled, chunks, size };
+}
+
+export interface ChartLargeData<T extends AnyOption> {
+	/**
+	 * 当前配置的采样与分片计划，未开启大数据量模式时原样返回配置
+	 */
+	plan: ComputedRef<LargeDataPlan<T>>;
+	/**
+	 * 接入图表：写入配置后按缩放窗口重新采样并分片写入剩余数据，缩放时重新采样
+	 */
+	bind: (chart: Pick<UseEchartsResult, "instance" | "on" | "onDraw">) => void;
+}
+
+/**
+ * 大数据量模式
+ * @description 折线与柱状系列按容器宽度（每像素两个点）降采样，宽度变化时重新计算，缩放后对窗口内的数据重新采样；
+ * 散点、特效散点与线图系列先写入第一片，剩余数据基于 useTimeSlice 分片通过 appendData 写入，避免长时间阻塞主线程。
+ * 系列数据需按 x 升序排列，数据集（dataset）中的数据不做处理
+ * @param target - 图表容器，用于读取宽度
+ * @param option - 图表配置
+ * @param options - 配置项，为 false 或 undefined 时不做处理
+ */
+export function useLargeData<T extends AnyOption>(
+	target: MaybeRefOrGetter<HTMLElement | null | undefined>,
+	option: MaybeRefOrGetter<T>,
+	options: MaybeRefOrGetter<boolean | EchartsLargeDataOptions | undefined>,
+): ChartLargeData<T> {
+	const width = ref(0);
+	// 最近一次写入图表的计划，只在写入时更新
+	let applied: LargeDataPlan<T> | undefined;
+	let instance: EChartsType | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	// 最近一次写入的采样点数与缩放窗口，未变化时不重新采样
+	let sampledKey = "";
+	const queue: DataChunk[] = [];
+
+	const resolveOptions = (): EchartsLargeDataOptions | undefined => {
+		const value = toValue(options);
+		if (!value) return undefined;
+		return value === true ? {} : value;
+	};
+
+	const plan = computed<LargeDataPlan<T>>(() => {
+		const current = toValue(option);
+		const resolved = resolveOptions();
+		return resolved
+			? planLargeData(current, resolved, width.value)
+			: { option: current, sampled: [], chunks: [], size: 0 };
+	});
+
+	// 分片间隔变化时重新创建分时任务，间隔不变时复用
+	let sliceInterval: number | undefined;
+	let slice: ReturnType<typeof useTimeSlice> | undefined;
+	const useSlice = (interval: number) => {
+		if (!slice || interval !== sliceInterval) {
+			sliceInterval = interval;
+			slice = useTimeSlice({
+				data: queue,
+				count: 1,
+				interval,
+				handler: (chunk: DataChunk) => instance?.appendData(chunk),
+			});
+		}
+		return slice;
+	};
+
+	const measure = () => {
+		width.value = toValue(target)?.clientWidth ?? 0;
+	};
+	tryOnMounted(measure);
+	useResizeObserver(() => toValue(target), measure);
+
+	const resample = (chart: EChartsType) => {
+		if (!applied?.sampled.length) return;
+		const method = resolveOptions()?.sampling || "lttb";
+		const zoom = readZoom(chart);
+		const zoomed =
+			zoom &&
+			typeof zoom.startValue === "number" &&
+			typeof zoom.endValue === "number" &&
+			((zoom.start ?? 0) > 0 || (zoom.end ?? 100) < 100);
+		const visibleRange = zoomed
+			? ([zoom.startValue, zoom.endValue] as [number, number])
+			: undefined;
+		const { size } = applied;
+		const key = visibleRange
+			? `${size}:${visibleRange.join(",")}`
+			: String(size);
+		if (key === sampledKey) return;
+		sampledKey = key;
+		// 按 id 合并，不影响其余系列（包括通过 appendData 写入的数据）
+		chart.setOption({
+			series: applied.sampled.map(({ id, data }) => ({
+				id,
+				data: downsample(data, size, method, visibleRange),
+			})),
+		});
+	};
+
+	const stop = () => {
+		clearTimeout(timer);
+		slice?.stop();
+	};
+
+	const load = (chart: EChartsType) => {
+		stop();
+		instance = chart;
+		queue.splice(0, queue.length, ...(applied?.chunks ?? []));
+		if (!queue.length) return;
+		const interval = resolveOptions()?.interval ?? 16;
+		const current = useSlice(interval);
+		// 第一片已随配置写入，让出主线程后再开始追加
+		timer = setTimeout(current.start, interval);
+	};
+
+	const bind: ChartLargeData<T>["bind"] = (chart) => {
+		const refresh = useDebounceFn(() => {
+			if (chart.instance.value) resample(chart.instance.value);
+		}, 100);
+
+		chart.onDraw((current) => {
+			applied = plan.value;
+			sampledKey = String(applied.size);
+			resample(current);
+			load(current);
+		});
+		chart.on("datazoom", refresh);
+		tryOnScopeDispose(stop);
+	};
+
+	return { plan, bind };
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick, reactive } from "vue";
+import type { EchartsLargeDataOptions } from "../index";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import { downsample, lttb, minMax } from "../index";
+
+const wave = (length: number) =>
+	Array.from(
+		{ length },
+		(_, i) => [i, Math.sin(i / 10) * 100 + (i % 7)] as [number, number],
+	);
+
+describe("sampling", () => {
+	it("should keep the end points and the requested size", () => {
+		const points = wave(1000);
+		const result = lttb(points, 100);
+
+		expect(result).toHaveLength(100);
+		expect(result[0]).toBe(points[0]);
+		expect(result[99]).toBe(points[999]);
+		expect(lttb(points.slice(0, 50), 100)).toEqual(points.slice(0, 50));
+	});
+
+	it("should keep peaks and valleys with minMax", () => {
+		const points = wave(1000);
+		points[500] = [500, 1000];
+		points[600] = [600, -1000];
+		const result = minMax(points, 100);
+
+		expect(result.length).toBeLessThanOrEqual(100);
+		expect(result).toContain(points[500]);
+		expect(result).toContain(points[600]);
+	});
+
+	it("should keep category positions of single values", () => {
+		const data = Array.from({ length: 100 }, (_, i) => i % 10);
+		const result = downsample(data, 10) as [number, number][];
+
+		expect(result).toHaveLength(10);
+		for (const [index, value] of result) {
+			expect(value).toBe(data[index]);
+		}
+		expect(downsample([{ value: 1, name: "a" }, 2], 10)).toEqual([
+			{ value: 1, name: "a" },
+			2,
+		]);
+	});
+
+	it("should sample the zoom window in more detail", () => {
+		const points = wave(10000);
+		const result = downsample(points, 100, "lttb", [1000, 2000]) as number[][];
+		const inWindow = result.filter(([x]) => x >= 1000 && x <= 2000);
+
+		expect(inWindow.length).toBeGreaterThanOrEqual(98);
+		expect(result.length).toBeLessThan(210);
+	});
+});
+
+describe("largeData", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	const mountLargeChart = (
+		option: Record<string, any>,
+		largeData: boolean | EchartsLargeDataOptions,
+	) => {
+		const { wrapper, instance } = mountChart({ option, largeData });
+		return {
+			wrapper,
+			instance,
+			count: (seriesIndex: number) =>
+				instance()
+					.getModel()
+					.getSeriesByIndex(seriesIndex)
+					.getRawData()
+					.count(),
+		};
+	};
+
+	it("should downsample by width and resample on zoom", async () => {
+		const ctx = mountLargeChart(
+			{
+				dataZoom: [{ type: "inside" }],
+				xAxis: { type: "value" },
+				yAxis: {},
+				series: [
+					{ type: "line", data: wave(50000) },
+					{ type: "line", data: [1, 2, 3] },
+				],
+			},
+			true,
+		);
+		await nextTick();
+		await nextTick();
+
+		// 宽度 400，每像素两个点
+		expect(ctx.count(0)).toBe(800);
+		expect(ctx.count(1)).toBe(3);
+
+		ctx.instance().dispatchAction({ type: "dataZoom", start: 0, end: 10 });
+		await vi.advanceTimersByTimeAsync(100);
+		const zoomed = ctx.count(0);
+		expect(zoomed).toBeGreaterThan(800);
+		expect(zoomed).toBeLessThanOrEqual(1600);
+		ctx.wrapper.unmount();
+	});
+
+	it("should load unsampled series in chunks", async () => {
+		const ctx = mountLargeChart(
+			{
+				xAxis: { type: "value" },
+				yAxis: {},
+				series: [{ type: "scatter", data: wave(500) }],
+			},
+			{ chunkSize: 200 },
+		);
+		await nextTick();
+		await nextTick();
+
+		expect(ctx.count(0)).toBe(200);
+		await vi.advanceTimersByTimeAsync(16);
+		expect(ctx.count(0)).toBe(400);
+		await vi.advanceTimersByTimeAsync(16);
+		expect(ctx.count(0)).toBe(500);
+		ctx.wrapper.unmount();
+	});
+
+	it("should write series without appendData support at once", async () => {
+		const ctx = mountLargeChart(
+			{
+				xAxis: { type: "value" },
+				yAxis: {},
+				series: [
+					{ type: "line", data: wave(300) },
+					{ type: "scatter", data: wave(300) },
+				],
+			},
+			{ sampling: false, chunkSize: 200 },
+		);
+		await nextTick();
+		await nextTick();
+
+		expect(ctx.count(0)).toBe(300);
+		expect(ctx.count(1)).toBe(200);
+		await vi.advanceTimersByTimeAsync(16);
+		expect(ctx.count(0)).toBe(300);
+		expect(ctx.count(1)).toBe(300);
+		ctx.wrapper.unmount();
+	});
+
+	it("should pick up interval changes on the next load", async () => {
+		const largeData = reactive<EchartsLargeDataOptions>({
+			chunkSize: 100,
+			interval: 16,
+		});
+		const option = reactive<Record<string, any>>({
+			xAxis: { type: "value" },
+			yAxis: {},
+			series: [{ type: "scatter", data: wave(300) }],
+		});
+		const ctx = mountLargeChart(option, largeData);
+		await nextTick();
+		await nextTick();
+		await vi.advanceTimersByTimeAsync(32);
+		expect(ctx.count(0)).toBe(300);
+
+		largeData.interval = 100;
+		option.series = [{ type: "scatter", data: wave(300) }];
+		await nextTick();
+		await nextTick();
+		expect(ctx.count(0)).toBe(100);
+		await vi.advanceTimersByTimeAsync(16);
+		expect(ctx.count(0)).toBe(100);
+		await vi.advanceTimersByTimeAsync(84);
+		expect(ctx.count(0)).toBe(200);
+		await vi.advanceTimersByTimeAsync(16);
+		expect(ctx.count(0)).toBe(200);
+		await vi.advanceTimersByTimeAsync(84);
+		expect(ctx.count(0)).toBe(300);
+		ctx.wrapper.unmount();
+	});
+
+	it("should resample when the container width changes", async () => {
+		const observers: (() => void)[] = [];
+		vi.stubGlobal(
+			"ResizeObserver",
+			class {
+				constructor(callback: () => void) {
+					observers.push(callback);
+				}
+				observe() {}
+				disconnect() {}
+			},
+		);
+		const ctx = mountLargeChart(
+			{
+				xAxis: { type: "value" },
+				yAxis: {},
+				series: [{ type: "line", data: wave(50000) }],
+			},
+			true,
+		);
+		await nextTick();
+		await nextTick();
+		expect(ctx.count(0)).toBe(800);
+
+		vi.spyOn(HTMLElement.prototype, "clientWidth", "get").mockReturnValue(600);
+		for (const notify of observers) notify();
+		await nextTick();
+		await nextTick();
+		expect(ctx.count(0)).toBe(1200);
+		ctx.wrapper.unmount();
+	});
+});
@@ -0,0 +1,83 @@
+import type { MaybeElementRef } from "@vueuse/core";
+import type { Ref } from "vue";
+import { useDocumentVisibility, useIntersectionObserver } from "@vueuse/core";
+import { computed, ref } from "vue";
+
+export interface EchartsLazyOptions {
+	/**
+	 * 提前初始化的视口边距，例如 "200px" 表示距离视口 200px 时即开始初始化
+	 */
+	rootMargin?: string;
+	/**
+	 * 图表距离视口超过该距离(px)时销毁实例以释放内存，重新接近时再重建；不设置则不销毁
+	 */
+	disposeDistance?: number;
+}
+
+export interface ChartVisibility {
+	/**
+	 * 是否进入（含 rootMargin 的）视口
+	 */
+	isVisible: Ref<boolean>;
+	/**
+	 * 是否处于 disposeDistance 范围内
+	 */
+	isNear: Ref<boolean>;
+	/**
+	 * 是否可见且页面处于前台，为 false 时应暂停动画与尺寸调整
+	 */
+	isActive: Ref<boolean>;
+}
+
+/**
+ * 将 `lazy` 属性规范化为配置对象，未开启时返回 null
+ */
+export function normalizeLazyOptions(
+	lazy: boolean | EchartsLazyOptions | undefined,
+): EchartsLazyOptions | null {
+	if (!lazy) return null;
+	return lazy === true ? {} : lazy;
+}
+
+/**
+ * 监听图表容器相对视口的位置与页面可见性
+ * @description 不支持 IntersectionObserver 的环境下视为始终可见
+ * @param target - 图表容器
+ * @param options - 懒加载配置
+ */
+export function useChartVisibility(
+	target: MaybeElementRef,
+	options: EchartsLazyOptions,
+): ChartVisibility {
+	const { rootMargin = "0px", disposeDistance } = options;
+	const isVisible = ref(false);
+	const isNear = ref(true);
+	const documentVisibility = useDocumentVisibility();
+
+	const { isSupported } = useIntersectionObserver(
+		target,
+		([entry]) => {
+			isVisible.value = entry.isIntersecting;
+		},
+		{ rootMargin },
+	);
+	if (!isSupported.value) {
+		isVisible.value = true;
+	}
+
+	if (disposeDistance !== undefined) {
+		useIntersectionObserver(
+			target,
+			([entry]) => {
+				isNear.value = entry.isIntersecting;
+			},
+			{ rootMargin: `${disposeDistance}px` },
+		);
+	}
+
+	const isActive = computed(
+		() => isVisible.value && documentVisibility.value !== "hidden",
+	);
+
+	return { isVisible, isNear, isActive };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ref } from "vue";
+import { normalizeLazyOptions, useChartVisibility } from "../index";
+
+const observers: Array<{ callback: (entries: any[]) => void; options: any }> =
+	[];
+const documentVisibility = ref("visible");
+let supported = true;
+
+vi.mock("@vueuse/core", () => ({
+	useIntersectionObserver: vi.fn((_target, callback, options) => {
+		observers.push({ callback, options });
+		return { isSupported: { value: supported } };
+	}),
+	useDocumentVisibility: vi.fn(() => documentVisibility),
+}));
+
+describe("normalizeLazyOptions", () => {
+	it("should normalize the lazy prop", () => {
+		expect(normalizeLazyOptions(undefined)).toBeNull();
+		expect(normalizeLazyOptions(false)).toBeNull();
+		expect(normalizeLazyOptions(true)).toEqual({});
+		expect(normalizeLazyOptions({ rootMargin: "100px" })).toEqual({
+			rootMargin: "100px",
+		});
+	});
+});
+
+describe("useChartVisibility", () => {
+	beforeEach(() => {
+		observers.length = 0;
+		documentVisibility.value = "visible";
+		supported = true;
+	});
+
+	it("should track viewport intersection", () => {
+		const { isVisible, isActive } = useChartVisibility(ref(null), {
+			rootMargin: "200px",
+		});
+
+		expect(observers[0].options).toEqual({ rootMargin: "200px" });
+		expect(isVisible.value).toBe(false);
+
+		observers[0].callback([{ isIntersecting: true }]);
+		expect(isVisible.value).toBe(true);
+		expect(isActive.value).toBe(true);
+	});
+
+	it("should be inactive while the document is hidden", () => {
+		const { isActive } = useChartVisibility(ref(null), {});
+		observers[0].callback([{ isIntersecting: true }]);
+
+		documentVisibility.value = "hidden";
+		expect(isActive.value).toBe(false);
+	});
+
+	it("should observe the dispose distance separately", () => {
+		const { isNear } = useChartVisibility(ref(null), { disposeDistance: 1500 });
+
+		expect(observers).toHaveLength(2);
+		expect(observers[1].options).toEqual({ rootMargin: "1500px" });
+
+		observers[1].callback([{ isIntersecting: false }]);
+		expect(isNear.value).toBe(false);
+	});
+
+	it("should treat charts as visible without IntersectionObserver", () => {
+		supported = false;
+		const { isVisible } = useChartVisibility(ref(null), {});
+
+		expect(isVisible.value).toBe(true);
+	});
+});
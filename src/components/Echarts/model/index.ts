@@ -0,0 +1,254 @@
+import type { EChartsType } from "echarts/core";
+import type { UseEchartsResult } from "../../../hooks";
+import { isEqual } from "radashi";
+import { toValue, watch } from "vue";
+
+/**
+ * 图例选中状态，键为图例名称
+ */
+export type EchartsLegendSelected = Record<string, boolean>;
+
+/**
+ * 单个系列中被选中的数据
+ */
+export interface EchartsSelectionItem {
+	seriesIndex: number;
+	dataIndex: number[];
+}
+
+/**
+ * 刷选或点击选中的数据，按系列分组
+ */
+export type EchartsSelection = EchartsSelectionItem[];
+
+/**
+ * 数据缩放窗口，可使用百分比（start/end）或数值（startValue/endValue）
+ */
+export interface EchartsZoom {
+	start?: number;
+	end?: number;
+	startValue?: number | string;
+	endValue?: number | string;
+}
+
+export interface ComponentModelLike {
+	option: Record<string, any>;
+	isSelected?: (name: string) => boolean;
+	getPercentRange?: () => number[];
+	getValueRange?: () => number[];
+	getCategories?: () => string[];
+	axis?: {
+		grid?: {
+			getRect: () => { x: number; y: number; width: number; height: number };
+		};
+	};
+}
+
+/**
+ * 读取图表内部的组件模型
+ * @description getModel 在类型声明中为私有方法
+ */
+export function getComponent(
+	instance: EChartsType,
+	mainType: string,
+	index = 0,
+): ComponentModelLike | undefined {
+	const model = (
+		instance as unknown as {
+			getModel: () =>
+				| {
+						getComponent: (
+							mainType: string,
+							index?: number,
+						) => ComponentModelLike | undefined;
+				  }
+				| undefined;
+		}
+	).getModel();
+	return model?.getComponent(mainType, index);
+}
+
+/**
+ * 将选中数据整理为按系列排序、去除空系列的结构，便于比较
+ */
+export function normalizeSelection(
+	selected: ReadonlyArray<{ seriesIndex: number; dataIndex?: number[] }>,
+): EchartsSelection {
+	return selected
+		.filter((item) => item.dataIndex?.length)
+		.map((item) => ({
+			seriesIndex: item.seriesIndex,
+			dataIndex: [...(item.dataIndex ?? [])].sort((a, b) => a - b),
+		}))
+		.sort((a, b) => a.seriesIndex - b.seriesIndex);
+}
+
+/**
+ * 计算从一组选中数据切换到另一组所需的 select / unselect 动作
+ */
+export function selectionActions(
+	prev: EchartsSelection,
+	next: EchartsSelection,
+): Array<{
+	type: "select" | "unselect";
+	seriesIndex: number;
+	dataIndex: number[];
+}> {
+	const actions: ReturnType<typeof selectionActions> = [];
+	const indexes = (selection: EchartsSelection, seriesIndex: number) =>
+		new Set(
+			selection.find((item) => item.seriesIndex === seriesIndex)?.dataIndex,
+		);
+	const seriesIndexes = new Set(
+		[...prev, ...next].map((item) => item.seriesIndex),
+	);
+	for (const seriesIndex of seriesIndexes) {
+		const before = indexes(prev, seriesIndex);
+		const after = indexes(next, seriesIndex);
+		const removed = [...before].filter((index) => !after.has(index));
+		const added = [...after].filter((index) => !before.has(index));
+		if (removed.length) {
+			actions.push({ type: "unselect", seriesIndex, dataIndex: removed });
+		}
+		if (added.length) {
+			actions.push({ type: "select", seriesIndex, dataIndex: added });
+		}
+	}
+	return actions;
+}
+
+/**
+ * 读取第一个数据缩放组件当前的窗口
+ */
+export function readZoom(instance: EChartsType): EchartsZoom | undefined {
+	const model = getComponent(instance, "dataZoom");
+	if (!model?.getPercentRange || !model.getValueRange) return undefined;
+	const [start, end] = model.getPercentRange();
+	const [startValue, endValue] = model.getValueRange();
+	return { start, end, startValue, endValue };
+}
+
+/**
+ * 判断当前窗口是否与目标窗口一致，只比较目标中设置了的字段
+ */
+export function isSameZoom(current: EchartsZoom, target: EchartsZoom): boolean {
+	return (Object.keys(target) as Array<keyof EchartsZoom>).every((key) => {
+		const a = current[key];
+		const b = target[key];
+		if (b === undefined) return true;
+		return typeof a === "number" && typeof b === "number"
+			? Math.abs(a - b) < 1e-6
+			: a === b;
+	});
+}
+
+export interface UseChartModelsOptions {
+	legendSelected: () => EchartsLegendSelected | undefined;
+	selection: () => EchartsSelection | undefined;
+	zoom: () => EchartsZoom | undefined;
+	/**
+	 * 各状态变化时的回调，未设置时不监听对应的图表事件
+	 */
+	onLegendSelected?: (value: EchartsLegendSelected) => void;
+	onSelection?: (value: EchartsSelection) => void;
+	onZoom?: (value: EchartsZoom) => void;
+}
+
+/**
+ * 图例选中、数据选中与缩放窗口的双向绑定
+ * @description 用户交互时通过回调同步到外部；外部修改或重新绘制后通过 dispatchAction 同步到图表
+ * @param chart - useEcharts 的返回值
+ * @param options - 状态读取函数与变化回调
+ */
+export function useChartModels(
+	chart: Pick<UseEchartsResult, "instance" | "on" | "onDraw">,
+	options: UseChartModelsOptions,
+): void {
+	const { onLegendSelected, onSelection, onZoom } = options;
+	// 最近一次同步到图表或由图表上报的选中数据，用于计算增量动作
+	let appliedSelection: EchartsSelection = [];
+
+	function applyLegend(selected = options.legendSelected()) {
+		const instance = toValue(chart.instance);
+		if (!instance || !selected) return;
+		const legend = getComponent(instance, "legend");
+		for (const [name, value] of Object.entries(selected)) {
+			if (legend?.isSelected?.(name) === value) continue;
+			instance.dispatchAction({
+				type: value ? "legendSelect" : "legendUnSelect",
+				name,
+			});
+		}
+	}
+
+	function applySelection(selection = options.selection(), reset = false) {
+		const instance = toValue(chart.instance);
+		if (!instance || !selection) return;
+		const next = normalizeSelection(selection);
+		// 重新绘制后图表中的选中状态可能已被清空，需要完整地重新选中
+		const actions = selectionActions(reset ? [] : appliedSelection, next);
+		appliedSelection = next;
+		for (const action of actions) {
+			instance.dispatchAction(action);
+		}
+	}
+
+	function applyZoom(zoom = options.zoom()) {
+		const instance = toValue(chart.instance);
+		if (!instance || !zoom) return;
+		const current = readZoom(instance);
+		if (!current || isSameZoom(current, zoom)) return;
+		instance.dispatchAction({ type: "dataZoom", ...zoom });
+	}
+
+	if (onLegendSelected) {
+		const emitLegend = (params: { selected?: EchartsLegendSelected }) => {
+			if (
+				params.selected &&
+				!isEqual(params.selected, options.legendSelected())
+			) {
+				onLegendSelected({ ...params.selected });
+			}
+		};
+		chart.on("legendselectchanged", emitLegend);
+		chart.on("legendselectall", emitLegend);
+		chart.on("legendinverseselect", emitLegend);
+	}
+
+	if (onSelection) {
+		const emitSelection = (
+			selected: Array<{ seriesIndex: number; dataIndex?: number[] }>,
+		) => {
+			const next = normalizeSelection(selected);
+			appliedSelection = next;
+			if (!isEqual(next, normalizeSelection(options.selection() ?? []))) {
+				onSelection(next);
+			}
+		};
+		chart.on("selectchanged", (params) => emitSelection(params.selected ?? []));
+		chart.on("brushselected", (params) =>
+			emitSelection(params.batch?.[0]?.selected ?? []),
+		);
+	}
+
+	if (onZoom) {
+		chart.on("datazoom", () => {
+			const instance = toValue(chart.instance);
+			const zoom = instance && readZoom(instance);
+			const target = options.zoom();
+			if (zoom && (!target || !isSameZoom(zoom, target))) {
+				onZoom(zoom);
+			}
+		});
+	}
+
+	chart.onDraw(() => {
+		applyLegend();
+		applySelection(undefined, true);
+		applyZoom();
+	});
+
+	watch(options.legendSelected, (value) => applyLegend(value), { deep: true });
+	watch(options.selection, (value) => applySelection(value), { deep: true });
+	watch(options.zoom, (value) => applyZoom(value), { deep: true });
+}
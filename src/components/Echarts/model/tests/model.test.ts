@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick, ref } from "vue";
+import type {
+	EchartsLegendSelected,
+	EchartsSelection,
+	EchartsZoom,
+} from "../index";
+import { mockChartContainer, mountUseEcharts } from "../../tests/setup";
+import {
+	isSameZoom,
+	normalizeSelection,
+	selectionActions,
+	useChartModels,
+} from "../index";
+
+describe("selection helpers", () => {
+	it("should normalize selections for comparison", () => {
+		expect(
+			normalizeSelection([
+				{ seriesIndex: 1, dataIndex: [3, 1] },
+				{ seriesIndex: 0, dataIndex: [] },
+				{ seriesIndex: 0 },
+			]),
+		).toEqual([{ seriesIndex: 1, dataIndex: [1, 3] }]);
+	});
+
+	it("should compute incremental select and unselect actions", () => {
+		expect(
+			selectionActions(
+				[{ seriesIndex: 0, dataIndex: [1, 2] }],
+				[
+					{ seriesIndex: 0, dataIndex: [2, 3] },
+					{ seriesIndex: 1, dataIndex: [0] },
+				],
+			),
+		).toEqual([
+			{ type: "unselect", seriesIndex: 0, dataIndex: [1] },
+			{ type: "select", seriesIndex: 0, dataIndex: [3] },
+			{ type: "select", seriesIndex: 1, dataIndex: [0] },
+		]);
+	});
+
+	it("should compare only the zoom fields that are set", () => {
+		const current = { start: 10, end: 50, startValue: 2, endValue: 8 };
+
+		expect(isSameZoom(current, { start: 10, end: 50 })).toBe(true);
+		expect(isSameZoom(current, { startValue: 2, endValue: 9 })).toBe(false);
+	});
+});
+
+describe("useChartModels", () => {
+	const option = {
+		legend: {},
+		dataZoom: [{ type: "inside" }],
+		xAxis: { type: "category", data: ["a", "b", "c", "d"] },
+		yAxis: {},
+		series: [
+			{ name: "PV", type: "bar", selectedMode: "multiple", data: [1, 2, 3, 4] },
+			{ name: "UV", type: "bar", data: [4, 3, 2, 1] },
+		],
+	} as any;
+
+	const mountChart = () => {
+		const legendSelected = ref<EchartsLegendSelected>();
+		const selection = ref<EchartsSelection>();
+		const zoom = ref<EchartsZoom>();
+		const onLegendSelected = vi.fn();
+		const onSelection = vi.fn();
+		const onZoom = vi.fn();
+		const { chart, wrapper } = mountUseEcharts(option, {}, (chart) =>
+			useChartModels(chart, {
+				legendSelected: () => legendSelected.value,
+				selection: () => selection.value,
+				zoom: () => zoom.value,
+				onLegendSelected,
+				onSelection,
+				onZoom,
+			}),
+		);
+		return {
+			chart: () => chart.instance.value as any,
+			wrapper,
+			legendSelected,
+			selection,
+			zoom,
+			onLegendSelected,
+			onSelection,
+			onZoom,
+		};
+	};
+
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should report legend toggles and apply programmatic changes", async () => {
+		const ctx = mountChart();
+		await nextTick();
+
+		ctx.chart().dispatchAction({ type: "legendToggleSelect", name: "UV" });
+		expect(ctx.onLegendSelected).toHaveBeenCalledWith({ PV: true, UV: false });
+
+		ctx.legendSelected.value = { PV: false };
+		await nextTick();
+		expect(ctx.chart().getOption().legend[0].selected).toMatchObject({
+			PV: false,
+		});
+		ctx.wrapper.unmount();
+	});
+
+	it("should sync selected data both ways", async () => {
+		const ctx = mountChart();
+		await nextTick();
+
+		ctx.selection.value = [{ seriesIndex: 0, dataIndex: [1, 2] }];
+		await nextTick();
+		// 外部设置的值不会再次上报
+		expect(ctx.onSelection).not.toHaveBeenCalled();
+
+		ctx.chart().dispatchAction({
+			type: "unselect",
+			seriesIndex: 0,
+			dataIndex: [1],
+		});
+		expect(ctx.onSelection).toHaveBeenLastCalledWith([
+			{ seriesIndex: 0, dataIndex: [2] },
+		]);
+		ctx.wrapper.unmount();
+	});
+
+	it("should sync the zoom window both ways", async () => {
+		const ctx = mountChart();
+		await nextTick();
+
+		ctx.zoom.value = { start: 25, end: 75 };
+		await nextTick();
+		expect(ctx.chart().getOption().dataZoom[0]).toMatchObject({
+			start: 25,
+			end: 75,
+		});
+		expect(ctx.onZoom).not.toHaveBeenCalled();
+
+		ctx.chart().dispatchAction({ type: "dataZoom", start: 0, end: 50 });
+		expect(ctx.onZoom).toHaveBeenCalledWith(
+			expect.objectContaining({ start: 0, end: 50 }),
+		);
+		ctx.wrapper.unmount();
+	});
+});
@@ -0,0 +1,202 @@
+import type { ComputedRef, MaybeRef, MaybeRefOrGetter, Ref } from "vue";
+import type { ECOption } from "../config";
+import type { EchartsUpdateOptions } from "../update";
+import type { AnyOption } from "../utils";
+import { tryOnScopeDispose, useTimeoutFn } from "@vueuse/core";
+import { computed, readonly, ref, toValue, unref, watch } from "vue";
+import { toArray } from "../utils";
+
+/**
+ * 播放的帧：配置数组，或按帧序号生成配置的函数（返回空值表示已到最后一帧）
+ */
+export type EchartsFrames =
+	| ECOption[]
+	| ((index: number) => ECOption | null | undefined);
+
+export interface EchartsPlaybackOptions {
+	/**
+	 * 每帧停留的时间(ms)，默认 1000
+	 */
+	interval?: number;
+	/**
+	 * 初始播放速度倍率，默认 1
+	 */
+	speed?: number;
+	/**
+	 * 播放到最后一帧后是否从头开始，默认 false
+	 */
+	loop?: boolean;
+	/**
+	 * 是否自动开始播放，默认 false
+	 */
+	autoplay?: boolean;
+}
+
+export interface ChartPlayback {
+	/**
+	 * 当前帧序号
+	 */
+	currentFrame: Readonly<Ref<number>>;
+	/**
+	 * 是否正在播放
+	 */
+	playing: Readonly<Ref<boolean>>;
+	/**
+	 * 播放速度倍率
+	 */
+	speed: Readonly<Ref<number>>;
+	/**
+	 * 当前帧的配置
+	 */
+	frame: ComputedRef<ECOption | undefined>;
+	/**
+	 * 开始播放，已在最后一帧且不循环时从第一帧开始
+	 */
+	play: () => void;
+	pause: () => void;
+	/**
+	 * 跳转到指定帧，帧不存在时忽略
+	 */
+	seek: (index: number) => void;
+	setSpeed: (value: number) => void;
+}
+
+/**
+ * 播放帧时的默认更新策略：按合并方式写入，并以替换方式更新系列，使系列之间可以过渡
+ */
+export const PLAYBACK_UPDATE_OPTIONS: EchartsUpdateOptions = {
+	notMerge: false,
+	replaceMerge: ["series"],
+};
+
+/**
+ * 将帧配置合并到基础配置上，并为系列开启 universalTransition
+ * @description 帧中的顶层配置项会覆盖基础配置中的同名配置项；系列已设置 universalTransition 时保持不变
+ * @param base - 基础配置，例如坐标轴、标题等不随帧变化的部分
+ * @param frame - 帧配置
+ * @returns 合并后的配置
+ */
+export function applyFrame(base: ECOption, frame?: ECOption): ECOption {
+	if (!frame) return base;
+	const option: AnyOption = { ...base, ...frame };
+	if (option.series) {
+		const series = toArray(option.series);
+		option.series = series.map((item: AnyOption) =>
+			item.universalTransition === undefined
+				? { ...item, universalTransition: { enabled: true } }
+				: item,
+		);
+	}
+	return option as ECOption;
+}
+
+/**
+ * 帧播放
+ * @description 按间隔依次切换帧，配合 applyFrame 生成的配置与 PLAYBACK_UPDATE_OPTIONS 写入图表时，
+ * 系列会通过 UniversalTransition 在帧之间平滑过渡
+ * @param frames - 帧配置数组或帧生成函数，由于函数本身就是帧数据，需要响应式时传入 ref 而不是 getter
+ * @param options - 播放配置
+ * @returns 播放状态与控制方法
+ * @example
+ * ```ts
+ * const playback = useChartPlayback(
+ *   months.map((month) => ({ series: [{ type: "bar", data: sales[month] }] })),
+ *   { interval: 800, loop: true },
+ * )
+ * const option = computed(() => applyFrame(baseOption, playback.frame.value))
+ * playback.play()
+ * ```
+ */
+export function useChartPlayback(
+	frames: MaybeRef<EchartsFrames | undefined>,
+	options: MaybeRefOrGetter<EchartsPlaybackOptions | undefined> = {},
+): ChartPlayback {
+	const initial = toValue(options) ?? {};
+	const currentFrame = ref(0);
+	const playing = ref(false);
+	const speed = ref(initial.speed ?? 1);
+
+	const frameAt = (index: number): ECOption | undefined => {
+		const source = unref(frames);
+		if (!source || index < 0) return undefined;
+		return (
+			(typeof source === "function" ? source(index) : source[index]) ??
+			undefined
+		);
+	};
+
+	const frame = computed(() => frameAt(currentFrame.value));
+
+	const timer = useTimeoutFn(
+		() => step(),
+		() => (toValue(options)?.interval ?? 1000) / speed.value,
+		{ immediate: false },
+	);
+
+	function step() {
+		if (!playing.value) return;
+		const next = currentFrame.value + 1;
+		if (frameAt(next)) {
+			currentFrame.value = next;
+		} else if (toValue(options)?.loop && frameAt(0)) {
+			currentFrame.value = 0;
+		} else {
+			pause();
+			return;
+		}
+		timer.start();
+	}
+
+	function play() {
+		if (playing.value) return;
+		const atEnd = !frameAt(currentFrame.value + 1);
+		if (atEnd && !toValue(options)?.loop) {
+			if (!frameAt(0)) return;
+			currentFrame.value = 0;
+		}
+		playing.value = true;
+		timer.start();
+	}
+
+	function pause() {
+		playing.value = false;
+		timer.stop();
+	}
+
+	function seek(index: number) {
+		const target = Math.max(0, Math.floor(index));
+		if (!frameAt(target)) return;
+		currentFrame.value = target;
+		// 播放中跳转后重新计时
+		if (playing.value) timer.start();
+	}
+
+	function setSpeed(value: number) {
+		if (!(value > 0)) return;
+		speed.value = value;
+		if (playing.value) timer.start();
+	}
+
+	// 帧数据变化后当前帧不存在时回到第一帧
+	watch(
+		() => unref(frames),
+		() => {
+			if (!frameAt(currentFrame.value)) currentFrame.value = 0;
+		},
+	);
+
+	tryOnScopeDispose(pause);
+
+	if (initial.autoplay) play();
+
+	return {
+		currentFrame: readonly(currentFrame),
+		playing: readonly(playing),
+		speed: readonly(speed),
+		frame,
+		play,
+		pause,
+		seek,
+		setSpeed,
+	};
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { effectScope, nextTick, ref } from "vue";
+import type { ECOption } from "../../config";
+import type { ChartPlayback } from "../index";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import { applyFrame, useChartPlayback } from "../index";
+
+const frames: ECOption[] = [1, 2, 3].map((value) => ({
+	series: [{ type: "bar", data: [value, value * 2] }],
+}));
+
+describe("applyFrame", () => {
+	it("should merge the frame and enable universal transition", () => {
+		const option = applyFrame(
+			{ title: { text: "销量" }, series: [{ type: "line" }] },
+			{
+				series: [{ type: "bar", universalTransition: false }, { type: "bar" }],
+			},
+		);
+
+		expect(option).toEqual({
+			title: { text: "销量" },
+			series: [
+				{ type: "bar", universalTransition: false },
+				{ type: "bar", universalTransition: { enabled: true } },
+			],
+		});
+	});
+});
+
+describe("useChartPlayback", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should step through frames and stop at the end", () => {
+		const scope = effectScope();
+		const playback = scope.run(() =>
+			useChartPlayback(frames, { interval: 100 }),
+		) as ChartPlayback;
+
+		playback.play();
+		expect(playback.playing.value).toBe(true);
+		vi.advanceTimersByTime(100);
+		expect(playback.currentFrame.value).toBe(1);
+		expect(playback.frame.value).toBe(frames[1]);
+
+		playback.setSpeed(2);
+		vi.advanceTimersByTime(50);
+		expect(playback.currentFrame.value).toBe(2);
+		vi.advanceTimersByTime(50);
+		expect(playback.playing.value).toBe(false);
+
+		// 在最后一帧重新播放时从头开始
+		playback.play();
+		expect(playback.currentFrame.value).toBe(0);
+		scope.stop();
+		expect(playback.playing.value).toBe(false);
+	});
+
+	it("should loop and seek with a frame function", () => {
+		const scope = effectScope();
+		const playback = scope.run(() =>
+			useChartPlayback((index) => (index < 3 ? frames[index] : null), {
+				interval: 100,
+				loop: true,
+				autoplay: true,
+			}),
+		) as ChartPlayback;
+
+		playback.seek(2);
+		expect(playback.currentFrame.value).toBe(2);
+		playback.seek(5);
+		expect(playback.currentFrame.value).toBe(2);
+
+		vi.advanceTimersByTime(100);
+		expect(playback.currentFrame.value).toBe(0);
+		expect(playback.playing.value).toBe(true);
+		scope.stop();
+	});
+});
+
+describe("Echarts frames", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should render the current frame and sync v-model", async () => {
+		const currentFrame = ref(0);
+		const { wrapper, chart, instance } = mountChart(() => ({
+			option: {
+				xAxis: { type: "category", data: ["a", "b"] },
+				yAxis: {},
+			},
+			frames,
+			playback: { interval: 100 },
+			currentFrame: currentFrame.value,
+			"onUpdate:currentFrame": (value: number) => {
+				currentFrame.value = value;
+			},
+		}));
+		await nextTick();
+		await nextTick();
+		const seriesData = () => instance().getOption().series[0].data;
+
+		expect(seriesData()).toEqual([1, 2]);
+		expect(wrapper.container.textContent).not.toContain("暂无数据");
+
+		chart().play();
+		await vi.advanceTimersByTimeAsync(100);
+		expect(currentFrame.value).toBe(1);
+		expect(seriesData()).toEqual([2, 4]);
+
+		currentFrame.value = 2;
+		await nextTick();
+		await nextTick();
+		expect(chart().currentFrame).toBe(2);
+		expect(seriesData()).toEqual([3, 6]);
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,57 @@
+import type { InjectionKey } from "vue";
+import { getCurrentInstance, provide } from "vue";
+
+/**
+ * 容器尺寸变化的通知
+ */
+export interface ChartResizeNotifier {
+	/**
+	 * 订阅通知，返回取消订阅的函数
+	 */
+	onResize: (listener: () => void) => () => void;
+	/**
+	 * 通知所有订阅的图表立即调整尺寸
+	 */
+	notify: () => void;
+}
+
+/**
+ * 由 {@link useChartResizeNotifier} 提供给后代 Echarts 组件的尺寸变化通知
+ */
+export const CHART_RESIZE_KEY: InjectionKey<ChartResizeNotifier> = Symbol(
+	"lazyhand-chart-resize",
+);
+
+export function createResizeNotifier(): ChartResizeNotifier {
+	const listeners = new Set<() => void>();
+	return {
+		onResize(listener) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+		notify() {
+			for (const listener of listeners) listener();
+		},
+	};
+}
+
+/**
+ * 图表尺寸变化通知 Hook
+ * @description 图表默认通过 ResizeObserver 防抖后调整尺寸；容器尺寸由代码改变时（例如拖拽结束），
+ * 可以通过 notify 让后代图表立即调整
+ * @returns 尺寸变化通知
+ * @example
+ * ```ts
+ * const notifier = useChartResizeNotifier()
+ * function onResizeEnd() {
+ *   notifier.notify()
+ * }
+ * ```
+ */
+export function useChartResizeNotifier(): ChartResizeNotifier {
+	const notifier = createResizeNotifier();
+	if (getCurrentInstance()) {
+		provide(CHART_RESIZE_KEY, notifier);
+	}
+	return notifier;
+}
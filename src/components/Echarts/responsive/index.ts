@@ -0,0 +1,179 @@
+import type { ECOption } from "../config";
+import type { AnyOption } from "../utils";
+
+/**
+ * 按容器尺寸生效的配置规则，条件均为闭区间，未设置的条件不做限制
+ */
+export interface EchartsResponsiveRule {
+	minWidth?: number;
+	maxWidth?: number;
+	minHeight?: number;
+	maxHeight?: number;
+	/**
+	 * 宽高比（宽 / 高）
+	 */
+	minAspectRatio?: number;
+	maxAspectRatio?: number;
+	/**
+	 * 命中时合并到基础配置上的配置
+	 */
+	option: ECOption;
+}
+
+export interface ContainerSize {
+	width: number;
+	height: number;
+}
+
+function isPlainObject(value: unknown): value is AnyOption {
+	return (
+		value !== null &&
+		typeof value === "object" &&
+		Object.getPrototypeOf(value) === Object.prototype
+	);
+}
+
+/**
+ * 判断规则是否与容器尺寸匹配
+ */
+export function matchRule(
+	rule: EchartsResponsiveRule,
+	{ width, height }: ContainerSize,
+): boolean {
+	const ratio = height ? width / height : Number.POSITIVE_INFINITY;
+	return (
+		(rule.minWidth === undefined || width >= rule.minWidth) &&
+		(rule.maxWidth === undefined || width <= rule.maxWidth) &&
+		(rule.minHeight === undefined || height >= rule.minHeight) &&
+		(rule.maxHeight === undefined || height <= rule.maxHeight) &&
+		(rule.minAspectRatio === undefined || ratio >= rule.minAspectRatio) &&
+		(rule.maxAspectRatio === undefined || ratio <= rule.maxAspectRatio)
+	);
+}
+
+/**
+ * 计算与容器尺寸匹配的规则下标
+ */
+export function matchRules(
+	rules: readonly EchartsResponsiveRule[] | undefined,
+	size: ContainerSize,
+): number[] {
+	return (rules ?? []).flatMap((rule, index) =>
+		matchRule(rule, size) ? [index] : [],
+	);
+}
+
+function mergeValue(base: unknown, patch: unknown): unknown {
+	if (isPlainObject(patch) && isPlainObject(base)) {
+		const result: AnyOption = { ...base };
+		for (const [key, value] of Object.entries(patch)) {
+			result[key] = mergeValue(base[key], value);
+		}
+		return result;
+	}
+	return patch;
+}
+
+/**
+ * 按 ECharts 的规则为补丁中的组件找到对应的组件：先按 id，再按 name，其余按下标依次对应
+ * @returns 每个补丁对应的组件下标，没有对应的组件时为新增组件的下标
+ */
+function mapComponents(items: unknown[], patches: unknown[]): number[] {
+	const used = new Set<number>();
+	const result = patches.map(() => -1);
+	for (const key of ["id", "name"]) {
+		patches.forEach((patch, i) => {
+			const value = isPlainObject(patch) ? patch[key] : undefined;
+			if (result[i] >= 0 || value === undefined || value === null) return;
+			const index = items.findIndex(
+				(item, j) => !used.has(j) && isPlainObject(item) && item[key] === value,
+			);
+			if (index >= 0) {
+				result[i] = index;
+				used.add(index);
+			}
+		});
+	}
+	let next = 0;
+	let appended = items.length;
+	return result.map((index, i) => {
+		if (index >= 0) return index;
+		// 带 id 的补丁只与相同 id 的组件对应
+		if (isPlainObject(patches[i]) && patches[i].id != null) return appended++;
+		while (used.has(next)) next++;
+		if (next >= items.length) return appended++;
+		used.add(next);
+		return next;
+	});
+}
+
+/**
+ * 将规则中的配置合并到基础配置上
+ * @description 与 ECharts 的 media 一致：组件先按 id、再按 name、其余按下标对应，
+ * 组件数组与单个组件配置视为长度为 1 的数组；组件内的对象深度合并，数组与其余值直接覆盖
+ * @param base - 基础配置
+ * @param patch - 规则中的配置
+ * @returns 合并后的配置，不会修改传入的配置
+ */
+export function mergeResponsiveOption(
+	base: ECOption,
+	patch: ECOption,
+): ECOption {
+	const result: AnyOption = { ...base };
+	for (const [key, value] of Object.entries(patch as AnyOption)) {
+		const current = result[key];
+		if (Array.isArray(current) || Array.isArray(value)) {
+			const items =
+				current === undefined
+					? []
+					: Array.isArray(current)
+						? [...current]
+						: [current];
+			const patches = Array.isArray(value) ? value : [value];
+			mapComponents(items, patches).forEach((index, i) => {
+				items[index] = mergeValue(items[index], patches[i]);
+			});
+			result[key] = items.filter((item) => item !== undefined);
+		} else {
+			result[key] = mergeValue(current, value);
+		}
+	}
+	return result as ECOption;
+}
+
+/**
+ * 按顺序合并命中的规则，后面的规则优先
+ * @description 使用 ECharts 原生的 `baseOption` + `media` 写法时，规则合并到 baseOption 上，
+ * media 原样交给 ECharts 处理
+ * @param option - 基础配置
+ * @param rules - 响应式规则
+ * @param matched - 命中的规则下标，见 matchRules
+ * @returns 合并后的配置，没有命中规则时返回原配置
+ * @example
+ * ```ts
+ * const rules = [{ maxWidth: 400, option: { legend: { show: false }, xAxis: { axisLabel: { rotate: 45 } } } }]
+ * applyResponsive(option, rules, matchRules(rules, { width: 320, height: 200 }))
+ * ```
+ */
+export function applyResponsive(
+	option: ECOption,
+	rules: readonly EchartsResponsiveRule[] | undefined,
+	matched: readonly number[],
+): ECOption {
+	if (!rules?.length || !matched.length) return option;
+	const merge = (base: ECOption) =>
+		matched.reduce(
+			(result, index) =>
+				rules[index]
+					? mergeResponsiveOption(result, rules[index].option)
+					: result,
+			base,
+		);
+	const { baseOption, media, options, ...rest } = option as AnyOption;
+	if (baseOption === undefined && media === undefined) return merge(option);
+	// 与 ECharts 一致，没有 baseOption 时顶层的其余配置即为基础配置
+	const result: AnyOption = { baseOption: merge(baseOption ?? rest) };
+	if (media !== undefined) result.media = media;
+	if (options !== undefined) result.options = options;
+	return result as ECOption;
+}
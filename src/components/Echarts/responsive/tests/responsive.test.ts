@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import type { EchartsResponsiveRule } from "../index";
+import { applyResponsive, matchRules, mergeResponsiveOption } from "../index";
+
+const rules: EchartsResponsiveRule[] = [
+	{ maxWidth: 400, option: { legend: { show: false } } },
+	{ maxWidth: 300, option: { xAxis: { axisLabel: { rotate: 45 } } } },
+	{ minAspectRatio: 2, option: { grid: { top: 8 } } },
+];
+
+describe("responsive rules", () => {
+	it("should match rules by size and aspect ratio", () => {
+		expect(matchRules(rules, { width: 500, height: 400 })).toEqual([]);
+		expect(matchRules(rules, { width: 400, height: 400 })).toEqual([0]);
+		expect(matchRules(rules, { width: 300, height: 100 })).toEqual([0, 1, 2]);
+		expect(matchRules(undefined, { width: 300, height: 100 })).toEqual([]);
+	});
+
+	it("should merge components by index like ECharts media", () => {
+		expect(
+			mergeResponsiveOption(
+				{
+					xAxis: [
+						{ type: "category", axisLabel: { color: "#333" } },
+						{ type: "value" },
+					],
+					legend: { top: 0 },
+				},
+				{ xAxis: { axisLabel: { rotate: 45 } }, legend: { show: false } },
+			),
+		).toEqual({
+			xAxis: [
+				{ type: "category", axisLabel: { color: "#333", rotate: 45 } },
+				{ type: "value" },
+			],
+			legend: { top: 0, show: false },
+		});
+	});
+
+	it("should apply matched rules in order without mutating the option", () => {
+		const option = {
+			legend: { show: true },
+			xAxis: { type: "category" as const },
+		};
+		const result = applyResponsive(option, rules, [0, 1]);
+
+		expect(result).toEqual({
+			legend: { show: false },
+			xAxis: { type: "category", axisLabel: { rotate: 45 } },
+		});
+		expect(option.legend.show).toBe(true);
+		expect(applyResponsive(option, rules, [])).toBe(option);
+	});
+
+	it("should match components by id and name before index", () => {
+		expect(
+			mergeResponsiveOption(
+				{
+					series: [
+						{ id: "a", type: "bar" },
+						{ name: "b", type: "line" },
+						{ type: "pie" },
+					],
+				},
+				{
+					series: [
+						{ name: "b", smooth: true },
+						{ id: "a", barWidth: 8 },
+						{ radius: "50%" },
+						{ id: "c", type: "scatter" },
+					],
+				},
+			),
+		).toEqual({
+			series: [
+				{ id: "a", type: "bar", barWidth: 8 },
+				{ name: "b", type: "line", smooth: true },
+				{ type: "pie", radius: "50%" },
+				{ id: "c", type: "scatter" },
+			],
+		});
+	});
+
+	it("should merge rules into baseOption and keep media for ECharts", () => {
+		const media = [
+			{ query: { maxWidth: 500 }, option: { legend: { top: 20 } } },
+		];
+
+		expect(
+			applyResponsive(
+				{ baseOption: { legend: { show: true } }, media } as any,
+				rules,
+				[0],
+			),
+		).toEqual({ baseOption: { legend: { show: false } }, media });
+		expect(
+			applyResponsive({ legend: { show: true }, media } as any, rules, [0]),
+		).toEqual({ baseOption: { legend: { show: false } }, media });
+	});
+});
@@ -0,0 +1,54 @@
+import type { ECOption } from "../config";
+import { echarts } from "../config";
+
+export interface RenderChartOptions {
+	/**
+	 * 画布宽度(px)
+	 */
+	width: number;
+	/**
+	 * 画布高度(px)
+	 */
+	height: number;
+	/**
+	 * 主题名称或主题对象
+	 */
+	theme?: string | object | null;
+	/**
+	 * 语言，例如 "ZH"、"EN"
+	 */
+	locale?: string;
+}
+
+/**
+ * 以 ECharts 服务端渲染模式将配置渲染为 SVG 字符串
+ * @description 不依赖 DOM，可在 Node 环境中运行；使用与组件相同的已注册模块，
+ * 因此仪表盘使用的 `ECOption` 可以直接用于生成报表图片
+ * @param option - 图表配置
+ * @param options - 渲染尺寸与主题
+ * @returns SVG 字符串
+ * @example
+ * ```ts
+ * const svg = renderChartToSVGString(option, { width: 800, height: 400, theme: "dark" })
+ * fs.writeFileSync("report.svg", svg)
+ * ```
+ */
+export function renderChartToSVGString(
+	option: ECOption,
+	{ width, height, theme = null, locale }: RenderChartOptions,
+): string {
+	const chart = echarts.init(null, theme, {
+		renderer: "svg",
+		ssr: true,
+		width,
+		height,
+		locale,
+	});
+	try {
+		// 服务端只输出最终帧，关闭动画
+		chart.setOption({ ...option, animation: false });
+		return chart.renderToSVGString();
+	} finally {
+		chart.dispose();
+	}
+}
@@ -0,0 +1,26 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from "vitest";
+import { renderChartToSVGString } from "../index";
+
+// 水球图插件只能在浏览器中加载，服务端入口不应依赖它
+vi.mock("echarts-liquidfill/index.js", () => {
+	throw new Error("echarts-liquidfill should not be loaded on the server");
+});
+
+describe("renderChartToSVGString in node", () => {
+	it("should render without a DOM", () => {
+		expect(typeof document).toBe("undefined");
+
+		const svg = renderChartToSVGString(
+			{
+				xAxis: { type: "category", data: ["Mon", "Tue", "Wed"] },
+				yAxis: { type: "value" },
+				series: [{ type: "line", data: [120, 200, 150] }],
+			},
+			{ width: 400, height: 300 },
+		);
+
+		expect(svg.startsWith("<svg")).toBe(true);
+		expect(svg).toContain("Wed");
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderChartToSVGString } from "../index";
+
+describe("renderChartToSVGString", () => {
+	beforeEach(() => {
+		// jsdom 未实现 canvas，文字测量时静默回退
+		vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	const option = {
+		xAxis: { type: "category" as const, data: ["Mon", "Tue", "Wed"] },
+		yAxis: { type: "value" as const },
+		series: [{ type: "bar" as const, data: [120, 200, 150] }],
+	};
+
+	it("should render an svg document with the requested size", () => {
+		const svg = renderChartToSVGString(option, { width: 400, height: 300 });
+
+		expect(svg.startsWith("<svg")).toBe(true);
+		expect(svg).toContain('width="400"');
+		expect(svg).toContain('height="300"');
+		expect(svg).toContain("Tue");
+	});
+
+	it("should apply the dark theme", () => {
+		const light = renderChartToSVGString(option, { width: 200, height: 100 });
+		const dark = renderChartToSVGString(option, {
+			width: 200,
+			height: 100,
+			theme: "dark",
+		});
+
+		expect(dark).not.toEqual(light);
+	});
+});
@@ -0,0 +1,67 @@
+import type { AnyOption } from "../utils";
+import { toArray } from "../utils";
+
+/**
+ * 内置加载动画的配置，对应 `showLoading("default", options)`
+ */
+export interface EchartsLoadingOptions {
+	text?: string;
+	color?: string;
+	textColor?: string;
+	maskColor?: string;
+	zlevel?: number;
+	fontSize?: number;
+	fontWeight?: string | number;
+	fontStyle?: string;
+	fontFamily?: string;
+	showSpinner?: boolean;
+	spinnerRadius?: number;
+	lineWidth?: number;
+}
+
+function hasItems(value: unknown): boolean {
+	if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+		return (value as ArrayLike<unknown>).length > 0;
+	}
+	return false;
+}
+
+function hasSourceData(source: unknown): boolean {
+	if (source === undefined || source === null) return false;
+	if (hasItems(source)) return true;
+	// 按列存储：{ month: [...], pv: [...] }
+	return (
+		typeof source === "object" &&
+		Object.values(source as AnyOption).some((column) => hasItems(column))
+	);
+}
+
+/**
+ * 判断图表配置是否没有任何数据
+ * @description 数据集与系列（包括关系图的 `nodes`）均没有数据时视为空，
+ * `baseOption`、`options` 与 `media` 中的数据同样计入
+ * @param option - 图表配置
+ * @returns 是否为空
+ * @example
+ * ```ts
+ * isOptionEmpty({ series: [{ type: "bar", data: [] }] }) // true
+ * isOptionEmpty({ dataset: { source: [{ x: 1 }] }, series: [{ type: "bar" }] }) // false
+ * ```
+ */
+export function isOptionEmpty(option: AnyOption): boolean {
+	// 兼容 baseOption + options/media 的写法，任一层有数据即不为空
+	const nested = [
+		option.baseOption,
+		...toArray(option.options),
+		...toArray<AnyOption>(option.media).map((item) => item?.option),
+	].filter(Boolean);
+	if (nested.some((item) => !isOptionEmpty(item))) return false;
+	if (
+		toArray(option.dataset).some((dataset) => hasSourceData(dataset?.source))
+	) {
+		return false;
+	}
+	return !toArray<AnyOption>(option.series).some(
+		(series) => hasItems(series?.data) || hasItems(series?.nodes),
+	);
+}
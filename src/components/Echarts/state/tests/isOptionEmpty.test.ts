@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { isOptionEmpty } from "../index";
+
+describe("isOptionEmpty", () => {
+	it("should treat options without series data as empty", () => {
+		expect(isOptionEmpty({})).toBe(true);
+		expect(isOptionEmpty({ series: [] })).toBe(true);
+		expect(
+			isOptionEmpty({
+				xAxis: { type: "category", data: ["Mon", "Tue"] },
+				series: [{ type: "bar", data: [] }, { type: "line" }],
+			}),
+		).toBe(true);
+	});
+
+	it("should detect series data", () => {
+		expect(
+			isOptionEmpty({ series: { type: "pie", data: [{ value: 1 }] } }),
+		).toBe(false);
+		expect(
+			isOptionEmpty({
+				series: [
+					{ type: "bar", data: [] },
+					{ type: "line", data: [1] },
+				],
+			}),
+		).toBe(false);
+		expect(
+			isOptionEmpty({ series: [{ type: "graph", nodes: [{ name: "a" }] }] }),
+		).toBe(false);
+	});
+
+	it("should detect typed array data", () => {
+		expect(
+			isOptionEmpty({
+				series: [{ type: "scatter", data: new Float32Array(2) }],
+			}),
+		).toBe(false);
+	});
+
+	it("should detect dataset sources", () => {
+		expect(
+			isOptionEmpty({
+				dataset: { source: [{ month: "1月", pv: 1 }] },
+				series: [{ type: "bar" }],
+			}),
+		).toBe(false);
+		expect(
+			isOptionEmpty({
+				dataset: { source: { month: ["1月"], pv: [1] } },
+				series: [{ type: "bar" }],
+			}),
+		).toBe(false);
+		expect(
+			isOptionEmpty({ dataset: { source: [] }, series: [{ type: "bar" }] }),
+		).toBe(true);
+	});
+
+	it("should detect data in baseOption, options and media", () => {
+		expect(
+			isOptionEmpty({
+				baseOption: {
+					dataset: { source: [{ month: "1月", pv: 1 }] },
+					series: [{ type: "bar" }],
+				},
+				media: [{ query: { maxWidth: 500 }, option: { legend: {} } }],
+			}),
+		).toBe(false);
+		expect(
+			isOptionEmpty({
+				baseOption: { timeline: {}, series: [{ type: "bar" }] },
+				options: [{ series: [{ data: [1, 2] }] }],
+			}),
+		).toBe(false);
+		expect(
+			isOptionEmpty({
+				baseOption: { series: [{ type: "bar", data: [] }] },
+				media: [{ option: { series: [{ type: "bar" }] } }],
+			}),
+		).toBe(true);
+	});
+});
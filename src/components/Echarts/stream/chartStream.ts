@@ -0,0 +1,109 @@
+import type { EChartsType } from "echarts/core";
+import { RingBuffer } from "./ringBuffer";
+
+/**
+ * 默认的滚动窗口大小
+ */
+export const DEFAULT_MAX_POINTS = 1000;
+
+export interface PushPointsOptions {
+	/**
+	 * 该系列最多保留的数据点数量，超出后丢弃最旧的数据
+	 */
+	maxPoints?: number;
+}
+
+export interface ChartStream<T = unknown> {
+	/**
+	 * 写入数据点并标记该系列待刷新
+	 */
+	push: (
+		seriesIndex: number,
+		points: readonly T[],
+		options?: PushPointsOptions,
+	) => void;
+	/**
+	 * 将待刷新的系列以合并模式写入图表
+	 * @param all - 为 true 时写入全部系列，用于图表重绘后恢复数据
+	 */
+	flush: (all?: boolean) => void;
+	/**
+	 * 清空指定系列的缓冲区，不传则清空全部
+	 */
+	clear: (seriesIndex?: number) => void;
+	/**
+	 * 获取指定系列当前窗口内的数据
+	 */
+	getData: (seriesIndex: number) => T[];
+	/**
+	 * 是否存在缓冲数据
+	 */
+	hasData: () => boolean;
+}
+
+/**
+ * 创建按系列维护滚动窗口的数据流
+ * @description 每个系列对应一个 {@link RingBuffer}，刷新时只通过合并模式的 `setOption`
+ * 更新发生变化的系列 `data`，不会触发整张图表的重建
+ * @param getInstance - 获取图表实例的函数
+ * @param defaultMaxPoints - 默认滚动窗口大小
+ */
+export function createChartStream<T = unknown>(
+	getInstance: () => EChartsType | undefined,
+	defaultMaxPoints = DEFAULT_MAX_POINTS,
+): ChartStream<T> {
+	const buffers = new Map<number, RingBuffer<T>>();
+	const dirty = new Set<number>();
+
+	function push(
+		seriesIndex: number,
+		points: readonly T[],
+		options: PushPointsOptions = {},
+	) {
+		const capacity = options.maxPoints ?? defaultMaxPoints;
+		let buffer = buffers.get(seriesIndex);
+		if (!buffer) {
+			buffer = new RingBuffer<T>(capacity);
+			buffers.set(seriesIndex, buffer);
+		} else {
+			buffer.resize(capacity);
+		}
+		buffer.push(points);
+		dirty.add(seriesIndex);
+	}
+
+	function flush(all = false) {
+		const instance = getInstance();
+		if (!instance || instance.isDisposed()) return;
+
+		const indexes = all ? [...buffers.keys()] : [...dirty];
+		dirty.clear();
+		if (!indexes.length) return;
+
+		// 未变化的系列传空对象，合并模式下会保留原有配置
+		const series: Array<{ data?: T[] }> = [];
+		for (let i = 0; i <= Math.max(...indexes); i++) {
+			const buffer = indexes.includes(i) ? buffers.get(i) : undefined;
+			series.push(buffer ? { data: buffer.toArray() } : {});
+		}
+		instance.setOption({ series }, { lazyUpdate: true, silent: true });
+	}
+
+	function clear(seriesIndex?: number) {
+		if (seriesIndex === undefined) {
+			for (const index of buffers.keys()) dirty.add(index);
+			for (const buffer of buffers.values()) buffer.clear();
+			return;
+		}
+		buffers.get(seriesIndex)?.clear();
+		dirty.add(seriesIndex);
+	}
+
+	return {
+		push,
+		flush,
+		clear,
+		getData: (seriesIndex) => buffers.get(seriesIndex)?.toArray() ?? [],
+		hasData: () => [...buffers.values()].some((buffer) => buffer.size > 0),
+	};
+}
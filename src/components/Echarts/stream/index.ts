@@ -0,0 +1,9 @@
+export { RingBuffer } from "./ringBuffer";
+export { createChartStream, DEFAULT_MAX_POINTS } from "./chartStream";
+export type { ChartStream, PushPointsOptions } from "./chartStream";
+export { useChartStream } from "./useChartStream";
+export type {
+	ChartStreamTarget,
+	UseChartStreamOptions,
+	UseChartStreamResult,
+} from "./useChartStream";
@@ -0,0 +1,88 @@
+/**
+ * 定长环形缓冲区
+ * @description 写满后新数据覆盖最旧的数据，用于实时数据流的滚动窗口
+ * @template T - 元素类型
+ * @example
+ * ```ts
+ * const buffer = new RingBuffer<number>(3)
+ * buffer.push([1, 2, 3, 4])
+ * buffer.toArray() // [2, 3, 4]
+ * ```
+ */
+export class RingBuffer<T> {
+	private items: T[];
+	private head = 0;
+	private length = 0;
+
+	constructor(private cap: number) {
+		if (!Number.isInteger(cap) || cap <= 0) {
+			throw new Error("RingBuffer 的容量必须是正整数");
+		}
+		this.items = new Array(cap);
+	}
+
+	/**
+	 * 缓冲区容量
+	 */
+	get capacity(): number {
+		return this.cap;
+	}
+
+	/**
+	 * 当前元素数量
+	 */
+	get size(): number {
+		return this.length;
+	}
+
+	/**
+	 * 追加元素，超出容量时丢弃最旧的元素
+	 */
+	push(values: readonly T[]): void {
+		// 超出容量的部分无需逐个写入，只保留最后 cap 个
+		const start = Math.max(0, values.length - this.cap);
+		for (let i = start; i < values.length; i++) {
+			const tail = (this.head + this.length) % this.cap;
+			this.items[tail] = values[i];
+			if (this.length < this.cap) {
+				this.length++;
+			} else {
+				this.head = (this.head + 1) % this.cap;
+			}
+		}
+	}
+
+	/**
+	 * 调整容量，缩容时保留最新的元素
+	 */
+	resize(capacity: number): void {
+		if (!Number.isInteger(capacity) || capacity <= 0) {
+			throw new Error("RingBuffer 的容量必须是正整数");
+		}
+		if (capacity === this.cap) return;
+		const values = this.toArray();
+		this.cap = capacity;
+		this.clear();
+		this.push(values);
+	}
+
+	/**
+	 * 清空缓冲区
+	 */
+	clear(): void {
+		this.items = new Array(this.cap);
+		this.head = 0;
+		this.length = 0;
+	}
+
+	/**
+	 * 按写入顺序（旧 -> 新）返回元素
+	 */
+	toArray(): T[] {
+		const result = new Array<T>(this.length);
+		for (let i = 0; i < this.length; i++) {
+			result[i] = this.items[(this.head + i) % this.cap];
+		}
+		return result;
+	}
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { RingBuffer } from "../ringBuffer";
+
+describe("RingBuffer", () => {
+	it("should keep items in insertion order", () => {
+		const buffer = new RingBuffer<number>(5);
+		buffer.push([1, 2, 3]);
+
+		expect(buffer.size).toBe(3);
+		expect(buffer.toArray()).toEqual([1, 2, 3]);
+	});
+
+	it("should drop the oldest items when full", () => {
+		const buffer = new RingBuffer<number>(3);
+		buffer.push([1, 2]);
+		buffer.push([3, 4, 5]);
+
+		expect(buffer.size).toBe(3);
+		expect(buffer.toArray()).toEqual([3, 4, 5]);
+	});
+
+	it("should only keep the tail of a batch larger than capacity", () => {
+		const buffer = new RingBuffer<number>(2);
+		buffer.push([1, 2, 3, 4, 5]);
+
+		expect(buffer.toArray()).toEqual([4, 5]);
+	});
+
+	it("should keep the newest items when shrinking", () => {
+		const buffer = new RingBuffer<number>(4);
+		buffer.push([1, 2, 3, 4]);
+		buffer.resize(2);
+
+		expect(buffer.capacity).toBe(2);
+		expect(buffer.toArray()).toEqual([3, 4]);
+
+		buffer.resize(3);
+		buffer.push([5]);
+		expect(buffer.toArray()).toEqual([3, 4, 5]);
+	});
+
+	it("should clear all items", () => {
+		const buffer = new RingBuffer<number>(3);
+		buffer.push([1, 2, 3]);
+		buffer.clear();
+
+		expect(buffer.size).toBe(0);
+		expect(buffer.toArray()).toEqual([]);
+	});
+
+	it("should reject invalid capacity", () => {
+		expect(() => new RingBuffer(0)).toThrow();
+		expect(() => new RingBuffer(1.5)).toThrow();
+		expect(() => new RingBuffer(2).resize(-1)).toThrow();
+	});
+});
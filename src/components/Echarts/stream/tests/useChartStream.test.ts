@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { shallowRef } from "vue";
+import { useChartStream } from "../useChartStream";
+
+function createInstance() {
+	return {
+		setOption: vi.fn(),
+		isDisposed: vi.fn(() => false),
+	} as any;
+}
+
+describe("useChartStream", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.clearAllMocks();
+	});
+
+	it("should batch pushes within a frame into one merge update", async () => {
+		const instance = createInstance();
+		const stream = useChartStream<number>(instance);
+
+		stream.push(0, [1, 2]);
+		stream.push(0, [3]);
+		expect(instance.setOption).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(16);
+
+		expect(instance.setOption).toHaveBeenCalledTimes(1);
+		expect(instance.setOption).toHaveBeenCalledWith(
+			{ series: [{ data: [1, 2, 3] }] },
+			{ lazyUpdate: true, silent: true },
+		);
+	});
+
+	it("should keep a bounded window per series", () => {
+		const instance = createInstance();
+		const stream = useChartStream<number>(instance, { maxPoints: 3 });
+
+		stream.push(0, [1, 2, 3, 4]);
+		stream.push(1, [1, 2, 3, 4, 5], { maxPoints: 2 });
+		stream.flush();
+
+		expect(stream.getData(0)).toEqual([2, 3, 4]);
+		expect(stream.getData(1)).toEqual([4, 5]);
+	});
+
+	it("should only send changed series", () => {
+		const instance = createInstance();
+		const stream = useChartStream<number>(instance);
+
+		stream.push(0, [1]);
+		stream.flush();
+		stream.push(2, [7]);
+		stream.flush();
+
+		expect(instance.setOption).toHaveBeenLastCalledWith(
+			{ series: [{}, {}, { data: [7] }] },
+			{ lazyUpdate: true, silent: true },
+		);
+	});
+
+	it("should forward new points to an Echarts component", () => {
+		const component = { pushPoints: vi.fn(), clearPoints: vi.fn() };
+		const stream = useChartStream<number>(component, { maxPoints: 10 });
+
+		stream.push(0, [1, 2]);
+		stream.flush();
+		stream.push(0, [3]);
+		stream.flush();
+
+		expect(component.pushPoints).toHaveBeenNthCalledWith(1, 0, [1, 2], {
+			maxPoints: 10,
+		});
+		expect(component.pushPoints).toHaveBeenNthCalledWith(2, 0, [3], {
+			maxPoints: 10,
+		});
+
+		stream.clear(0);
+		expect(component.clearPoints).toHaveBeenCalledWith(0);
+		expect(stream.getData(0)).toEqual([]);
+	});
+
+	it("should restore the full window when the target changes", async () => {
+		const first = createInstance();
+		const second = createInstance();
+		const target = shallowRef(first);
+		const stream = useChartStream<number>(target);
+
+		stream.push(0, [1, 2]);
+		stream.flush();
+
+		target.value = second;
+		await vi.advanceTimersByTimeAsync(0);
+
+		expect(second.setOption).toHaveBeenCalledWith(
+			{ series: [{ data: [1, 2] }] },
+			{ lazyUpdate: true, silent: true },
+		);
+	});
+
+	it("should skip disposed instances", () => {
+		const instance = createInstance();
+		instance.isDisposed.mockReturnValue(true);
+		const stream = useChartStream<number>(instance);
+
+		stream.push(0, [1]);
+		stream.flush();
+
+		expect(instance.setOption).not.toHaveBeenCalled();
+	});
+});
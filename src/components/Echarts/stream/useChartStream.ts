@@ -0,0 +1,183 @@
+import type { EChartsType } from "echarts/core";
+import type { MaybeRefOrGetter } from "vue";
+import type { PushPointsOptions } from "./chartStream";
+import { getCurrentScope, onScopeDispose, toValue, watch } from "vue";
+import { createChartStream, DEFAULT_MAX_POINTS } from "./chartStream";
+
+/**
+ * Echarts 组件暴露的流式写入能力
+ */
+export interface EchartsStreamExpose {
+	pushPoints: (
+		seriesIndex: number,
+		points: readonly any[],
+		options?: PushPointsOptions,
+	) => void;
+	clearPoints: (seriesIndex?: number) => void;
+}
+
+/**
+ * 数据流写入目标：图表实例或 Echarts 组件实例
+ */
+export type ChartStreamTarget = EChartsType | EchartsStreamExpose;
+
+export interface UseChartStreamOptions {
+	/**
+	 * 每个系列默认保留的数据点数量，默认 1000
+	 */
+	maxPoints?: number;
+}
+
+export interface UseChartStreamResult<T> {
+	/**
+	 * 写入数据点，同一帧内的多次写入会合并为一次图表更新
+	 */
+	push: (
+		seriesIndex: number,
+		points: readonly T[],
+		options?: PushPointsOptions,
+	) => void;
+	/**
+	 * 立即将待写入的数据刷新到图表
+	 */
+	flush: () => void;
+	/**
+	 * 清空指定系列的数据，不传则清空全部
+	 */
+	clear: (seriesIndex?: number) => void;
+	/**
+	 * 获取指定系列当前窗口内的数据
+	 */
+	getData: (seriesIndex: number) => T[];
+}
+
+function isStreamExpose(
+	target: ChartStreamTarget,
+): target is EchartsStreamExpose {
+	return typeof (target as EchartsStreamExpose).pushPoints === "function";
+}
+
+const requestFrame = (cb: () => void): number =>
+	typeof requestAnimationFrame !== "undefined"
+		? requestAnimationFrame(cb)
+		: (setTimeout(cb, 16) as unknown as number);
+
+const cancelFrame = (id: number) =>
+	typeof cancelAnimationFrame !== "undefined"
+		? cancelAnimationFrame(id)
+		: clearTimeout(id);
+
+/**
+ * 实时数据流 Hook
+ * @description 为每个系列维护定长的滚动窗口，按帧批量地以增量方式写入图表，
+ * 避免修改 `option` 触发的深度监听与整图重绘
+ * @template T - 数据点类型，例如 `[time, value]`
+ * @param target - 图表实例或 Echarts 组件实例（组件实例会在重绘后自动恢复数据）
+ * @param options - 配置项
+ * @returns 数据写入与读取方法
+ * @example
+ * ```ts
+ * const chartRef = ref<InstanceType<typeof Echarts>>()
+ * const stream = useChartStream<[number, number]>(chartRef, { maxPoints: 300 })
+ *
+ * socket.onmessage = ({ data }) => {
+ *   stream.push(0, [[Date.now(), data.value]])
+ * }
+ * ```
+ */
+export function useChartStream<T = unknown>(
+	target: MaybeRefOrGetter<ChartStreamTarget | null | undefined>,
+	options: UseChartStreamOptions = {},
+): UseChartStreamResult<T> {
+	const { maxPoints = DEFAULT_MAX_POINTS } = options;
+
+	const resolveInstance = () => {
+		const value = toValue(target);
+		return value && !isStreamExpose(value) ? value : undefined;
+	};
+	const stream = createChartStream<T>(resolveInstance, maxPoints);
+	// 组件目标下，记录自上次刷新以来新增的数据点及每个系列的窗口大小
+	const pending = new Map<number, T[]>();
+	const capacities = new Map<number, number>();
+	let frameId: number | null = null;
+
+	function flush() {
+		if (frameId !== null) {
+			cancelFrame(frameId);
+			frameId = null;
+		}
+		const value = toValue(target);
+		if (value && isStreamExpose(value)) {
+			for (const [seriesIndex, points] of pending) {
+				value.pushPoints(seriesIndex, points, {
+					maxPoints: capacities.get(seriesIndex),
+				});
+			}
+		} else {
+			stream.flush();
+		}
+		pending.clear();
+	}
+
+	function push(
+		seriesIndex: number,
+		points: readonly T[],
+		pushOptions: PushPointsOptions = {},
+	) {
+		const capacity =
+			pushOptions.maxPoints ?? capacities.get(seriesIndex) ?? maxPoints;
+		capacities.set(seriesIndex, capacity);
+		stream.push(seriesIndex, points, { maxPoints: capacity });
+		const queue = pending.get(seriesIndex) ?? [];
+		for (const point of points) queue.push(point);
+		// 同一帧内写入的数据超出窗口时，只需保留最新部分
+		pending.set(seriesIndex, queue.slice(-capacity));
+		if (frameId === null) {
+			frameId = requestFrame(flush);
+		}
+	}
+
+	function clear(seriesIndex?: number) {
+		stream.clear(seriesIndex);
+		const value = toValue(target);
+		const indexes =
+			seriesIndex === undefined ? [...capacities.keys()] : [seriesIndex];
+		for (const index of indexes) pending.delete(index);
+		if (value && isStreamExpose(value)) {
+			value.clearPoints(seriesIndex);
+		} else {
+			stream.flush();
+		}
+	}
+
+	// 目标切换（例如组件重新挂载）后，补写完整窗口数据
+	watch(
+		() => toValue(target),
+		(value) => {
+			if (!value) return;
+			if (isStreamExpose(value)) {
+				for (const [seriesIndex, capacity] of capacities) {
+					value.pushPoints(seriesIndex, stream.getData(seriesIndex), {
+						maxPoints: capacity,
+					});
+				}
+				pending.clear();
+			} else {
+				stream.flush(true);
+			}
+		},
+	);
+
+	if (getCurrentScope()) {
+		onScopeDispose(() => {
+			if (frameId !== null) cancelFrame(frameId);
+		});
+	}
+
+	return {
+		push,
+		flush,
+		clear,
+		getData: stream.getData,
+	};
+}
@@ -0,0 +1,397 @@
+import type { TransformRow, TransformStep } from "../transform";
+import type { AnyOption } from "../utils";
+import { downloadFile } from "../image";
+import { runPipeline, TRANSFORM_NAMESPACE } from "../transform";
+import { itemValue, toArray } from "../utils";
+
+export type DataCell = string | number | null;
+
+/**
+ * 由图表配置展开得到的二维数据表
+ */
+export interface DataTable {
+	columns: string[];
+	rows: DataCell[][];
+}
+
+function toCell(value: unknown): DataCell {
+	if (value === undefined || value === null || value === "-") return null;
+	if (typeof value === "number" || typeof value === "string") return value;
+	if (value instanceof Date) return value.toISOString();
+	return String(value);
+}
+
+/**
+ * 读取数据项的数值：支持 `10`、`{ value: 10 }`、`[x, 10]`、`{ value: [x, 10] }`
+ */
+function itemNumber(item: unknown): unknown {
+	const value = itemValue(item);
+	return Array.isArray(value) ? value[value.length - 1] : value;
+}
+
+/**
+ * 读取坐标型数据项的 x 值：`[x, y]` 或 `{ value: [x, y] }`
+ */
+function itemKey(item: unknown): unknown {
+	const value = itemValue(item);
+	return Array.isArray(value) ? value[0] : undefined;
+}
+
+function itemName(item: unknown): unknown {
+	return item !== null && typeof item === "object" && !Array.isArray(item)
+		? (item as AnyOption).name
+		: undefined;
+}
+
+function seriesName(series: AnyOption, index: number): string {
+	return series.name !== undefined ? String(series.name) : `series${index}`;
+}
+
+function fromSource(dataset: AnyOption): DataTable {
+	const source = dataset.source;
+	if (!Array.isArray(source)) {
+		// 按列存储：{ month: [...], pv: [...] }
+		const columns = Object.keys(source ?? {});
+		const length = Math.max(0, ...columns.map((key) => source[key].length));
+		const rows = Array.from({ length }, (_, i) =>
+			columns.map((key) => toCell(source[key][i])),
+		);
+		return { columns, rows };
+	}
+	if (!source.length) {
+		return { columns: toArray(dataset.dimensions).map(String), rows: [] };
+	}
+	if (Array.isArray(source[0])) {
+		const hasHeader =
+			dataset.sourceHeader ??
+			source[0].every((cell: unknown) => typeof cell === "string");
+		const body = hasHeader ? source.slice(1) : source;
+		const width = source.reduce(
+			(max: number, row: unknown[]) => Math.max(max, row.length),
+			0,
+		);
+		const columns = hasHeader
+			? source[0].map(String)
+			: toArray(dataset.dimensions).length
+				? toArray(dataset.dimensions).map((dim: any) =>
+						String(dim?.name ?? dim),
+					)
+				: Array.from({ length: width }, (_, i) => `column${i}`);
+		return {
+			columns,
+			rows: body.map((row: unknown[]) => columns.map((_, i) => toCell(row[i]))),
+		};
+	}
+	// 对象数组：[{ month: "1月", pv: 120 }]
+	const columns: string[] = toArray(dataset.dimensions).length
+		? toArray(dataset.dimensions).map((dim: any) => String(dim?.name ?? dim))
+		: [...new Set(source.flatMap((row: AnyOption) => Object.keys(row)))];
+	return {
+		columns,
+		rows: source.map((row: AnyOption) =>
+			columns.map((key) => toCell(row[key])),
+		),
+	};
+}
+
+/**
+ * 展开 `baseOption` + `options` 写法，合并时间轴当前帧的配置，系列按索引合并
+ */
+function unwrapOption(option: AnyOption): AnyOption {
+	if (!option.baseOption && !option.options) return option;
+	const base: AnyOption = option.baseOption ?? option;
+	const index = toArray<AnyOption>(base.timeline)[0]?.currentIndex ?? 0;
+	const frame = toArray<AnyOption>(option.options)[index];
+	if (!frame) return base;
+	const series = toArray<AnyOption>(base.series);
+	const frameSeries = toArray<AnyOption>(frame.series);
+	return {
+		...base,
+		...frame,
+		series: Array.from(
+			{ length: Math.max(series.length, frameSeries.length) },
+			(_, i) => ({ ...series[i], ...frameSeries[i] }),
+		),
+	};
+}
+
+function datasetIndexOf(
+	datasets: AnyOption[],
+	id: unknown,
+	index: number | undefined,
+): number {
+	return id !== undefined
+		? datasets.findIndex((dataset) => dataset?.id === id)
+		: (index ?? 0);
+}
+
+const STEP_TYPES: string[] = ["filter", "groupBy", "sort", "pivot", "topN"];
+
+/**
+ * 将数据集 transform 转为转换步骤，ECharts 内置的 filter 与 sort 写法与之一致
+ */
+function toStep(transform: AnyOption): TransformStep | undefined {
+	const type = String(transform?.type ?? "");
+	const prefix = `${TRANSFORM_NAMESPACE}:`;
+	const name = type.startsWith(prefix)
+		? type.slice(prefix.length)
+		: type === "filter" || type === "sort"
+			? type
+			: "";
+	return STEP_TYPES.includes(name)
+		? ({ type: name, config: transform.config } as TransformStep)
+		: undefined;
+}
+
+/**
+ * 读取数据集的数据表，transform 数据集先读取上游数据集再执行转换
+ * @returns 无法解析（例如未知的 transform）时返回 undefined
+ */
+function datasetTable(
+	datasets: AnyOption[],
+	index: number,
+): DataTable | undefined {
+	const dataset = datasets[index];
+	if (!dataset) return undefined;
+	if (dataset.source !== undefined) return fromSource(dataset);
+	if (!dataset.transform) return undefined;
+	const upstreamIndex = datasetIndexOf(
+		datasets,
+		dataset.fromDatasetId,
+		dataset.fromDatasetIndex,
+	);
+	// 上游数据集必须声明在前，避免循环引用
+	if (upstreamIndex < 0 || upstreamIndex >= index) return undefined;
+	const upstream = datasetTable(datasets, upstreamIndex);
+	const steps = toArray<AnyOption>(dataset.transform).map(toStep);
+	if (!upstream || steps.some((step) => !step)) return undefined;
+	const records = runPipeline(
+		upstream.rows.map((row) =>
+			Object.fromEntries(upstream.columns.map((key, i) => [key, row[i]])),
+		),
+		steps as TransformStep[],
+	);
+	const columns = [
+		...new Set(records.flatMap((record: TransformRow) => Object.keys(record))),
+	];
+	return {
+		columns,
+		rows: records.map((record) => columns.map((key) => toCell(record[key]))),
+	};
+}
+
+/**
+ * 找到系列实际使用的数据集
+ * @returns 系列都自带数据时返回 -1
+ */
+function seriesDatasetIndex(option: AnyOption): number {
+	const datasets = toArray<AnyOption>(option.dataset);
+	if (!datasets.length) return -1;
+	const series = toArray<AnyOption>(option.series);
+	const user = series.find((item) => item && !Array.isArray(item.data));
+	if (!user) return series.length ? -1 : 0;
+	return datasetIndexOf(datasets, user.datasetId, user.datasetIndex);
+}
+
+/**
+ * 将图表配置展开为二维数据表
+ * @description `baseOption` 写法读取时间轴当前帧。优先使用系列引用的数据集，transform 数据集按上游数据执行转换；
+ * 否则按类目轴对齐各系列数据，坐标型数据（`[x, y]`）按 x 值对齐，饼图等无坐标轴的系列输出名称与数值
+ * @param source - 图表配置
+ * @returns 列名与数据行
+ * @example
+ * ```ts
+ * toDataTable({
+ *   xAxis: { data: ["Mon", "Tue"] },
+ *   series: [{ name: "PV", type: "bar", data: [120, 200] }],
+ * })
+ * // { columns: ["", "PV"], rows: [["Mon", 120], ["Tue", 200]] }
+ * ```
+ */
+export function toDataTable(source: AnyOption): DataTable {
+	const option = unwrapOption(source);
+	const table = datasetTable(
+		toArray<AnyOption>(option.dataset),
+		seriesDatasetIndex(option),
+	);
+	if (table) return table;
+
+	const series = toArray<AnyOption>(option.series).filter((item) =>
+		Array.isArray(item?.data),
+	);
+	if (!series.length) return { columns: [], rows: [] };
+	const names = series.map((item, index) => seriesName(item, index));
+
+	// 类目轴：按索引对齐
+	const categoryAxis = [
+		...toArray(option.xAxis),
+		...toArray(option.yAxis),
+	].find((axis: AnyOption) => Array.isArray(axis?.data));
+	if (categoryAxis) {
+		const categories: unknown[] = categoryAxis.data.map((item: unknown) =>
+			item !== null && typeof item === "object"
+				? (item as AnyOption).value
+				: item,
+		);
+		return {
+			columns: [categoryAxis.name ?? "", ...names],
+			rows: categories.map((category, i) => [
+				toCell(category),
+				...series.map((item) => toCell(itemNumber(item.data[i]))),
+			]),
+		};
+	}
+
+	// 坐标型数据：按 x 值对齐
+	const isPaired = series.every((item) =>
+		item.data.every(
+			(point: unknown) => point == null || itemKey(point) !== undefined,
+		),
+	);
+	if (isPaired) {
+		const keys: unknown[] = [];
+		const seen = new Set<unknown>();
+		const lookup = series.map((item) => {
+			const map = new Map<unknown, unknown>();
+			for (const point of item.data) {
+				const key = itemKey(point);
+				if (key === undefined) continue;
+				if (!seen.has(key)) {
+					seen.add(key);
+					keys.push(key);
+				}
+				map.set(key, itemNumber(point));
+			}
+			return map;
+		});
+		return {
+			columns: ["", ...names],
+			rows: keys.map((key) => [
+				toCell(key),
+				...lookup.map((map) => toCell(map.get(key))),
+			]),
+		};
+	}
+
+	// 名称 - 数值型数据（饼图、漏斗图、仪表盘等）
+	const withSeries = series.length > 1;
+	const rows = series.flatMap((item, index) =>
+		item.data.map((point: unknown, i: number) => {
+			const row = [toCell(itemName(point) ?? i), toCell(itemNumber(point))];
+			return withSeries ? [names[index], ...row] : row;
+		}),
+	);
+	return {
+		columns: withSeries ? ["series", "name", "value"] : ["name", "value"],
+		rows,
+	};
+}
+
+export type DataFormat = "csv" | "tsv" | "json";
+
+export interface ExportDataOptions {
+	/**
+	 * 数据格式，默认 csv
+	 */
+	format?: DataFormat;
+}
+
+const MIME_TYPES: Record<DataFormat, string> = {
+	csv: "text/csv",
+	tsv: "text/tab-separated-values",
+	json: "application/json",
+};
+
+function csvCell(cell: DataCell): string {
+	const text = cell === null ? "" : String(cell);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tsvCell(cell: DataCell): string {
+	// TSV 没有转义规则，单元格中的制表符与换行替换为空格
+	return cell === null ? "" : String(cell).replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * 将数据表序列化为文本
+ * @description csv 按 RFC 4180 转义；json 输出以列名为键的对象数组
+ * @param table - 数据表，见 toDataTable
+ * @param format - 数据格式，默认 csv
+ * @returns 序列化后的文本
+ */
+export function serializeDataTable(
+	table: DataTable,
+	format: DataFormat = "csv",
+): string {
+	if (format === "json") {
+		const records = table.rows.map((row) =>
+			Object.fromEntries(
+				table.columns.map((column, i) => [column, row[i] ?? null]),
+			),
+		);
+		return JSON.stringify(records, null, 2);
+	}
+	const [separator, toText] =
+		format === "tsv" ? ["\t", tsvCell] : [",", csvCell];
+	return [table.columns, ...table.rows]
+		.map((row) => row.map(toText).join(separator))
+		.join("\r\n");
+}
+
+/**
+ * 根据文件名后缀推断数据格式
+ */
+export function inferDataFormat(filename: string): DataFormat | undefined {
+	const ext = filename.split(".").pop()?.toLowerCase();
+	return ext === "csv" || ext === "tsv" || ext === "json" ? ext : undefined;
+}
+
+/**
+ * 将序列化后的数据保存为文件
+ * @description csv 添加 BOM，使 Excel 能正确识别中文
+ * @param content - 序列化后的文本，见 serializeDataTable
+ * @param filename - 下载文件名
+ * @param format - 数据格式，默认根据文件名推断
+ */
+export function downloadData(
+	content: string,
+	filename: string,
+	format: DataFormat = inferDataFormat(filename) ?? "csv",
+): void {
+	const blob = new Blob([format === "csv" ? `\uFEFF${content}` : content], {
+		type: `${MIME_TYPES[format]};charset=utf-8`,
+	});
+	const url = URL.createObjectURL(blob);
+	downloadFile(url, filename);
+	// 点击后立即释放会让部分浏览器（Safari、旧版 Firefox）取消下载
+	setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * 复制文本到剪贴板
+ * @description 优先使用 Clipboard API；不可用时（例如非安全上下文）退回 execCommand("copy")
+ * @param text - 需要复制的文本
+ * @returns 复制完成后 resolve，当前环境无法复制时 reject
+ */
+export async function copyText(text: string): Promise<void> {
+	if (typeof navigator !== "undefined" && navigator.clipboard?.writeText) {
+		return navigator.clipboard.writeText(text);
+	}
+	if (typeof document === "undefined") {
+		throw new Error("[lazyhand-tool] 当前环境不支持复制到剪贴板");
+	}
+	const textarea = document.createElement("textarea");
+	textarea.value = text;
+	textarea.setAttribute("readonly", "");
+	textarea.style.position = "fixed";
+	textarea.style.opacity = "0";
+	document.body.appendChild(textarea);
+	textarea.select();
+	try {
+		if (!document.execCommand?.("copy")) {
+			throw new Error("[lazyhand-tool] 当前环境不支持复制到剪贴板");
+		}
+	} finally {
+		document.body.removeChild(textarea);
+	}
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { nextTick } from "vue";
+import { mockChartContainer, mountChart } from "../../tests/setup";
+import {
+	copyText,
+	downloadData,
+	inferDataFormat,
+	serializeDataTable,
+} from "../index";
+
+const table = {
+	columns: ["", "销量, 件", "备注"],
+	rows: [
+		["Mon", 120, '含"促销"'],
+		["Tue", null, "第一行\n第二行"],
+	],
+};
+
+describe("serializeDataTable", () => {
+	it("should quote csv cells when needed", () => {
+		expect(serializeDataTable(table)).toBe(
+			',"销量, 件",备注\r\nMon,120,"含""促销"""\r\nTue,,"第一行\n第二行"',
+		);
+	});
+
+	it("should flatten tsv cells", () => {
+		expect(serializeDataTable(table, "tsv")).toBe(
+			'\t销量, 件\t备注\r\nMon\t120\t含"促销"\r\nTue\t\t第一行 第二行',
+		);
+	});
+
+	it("should output json records", () => {
+		expect(JSON.parse(serializeDataTable(table, "json"))).toEqual([
+			{ "": "Mon", "销量, 件": 120, 备注: '含"促销"' },
+			{ "": "Tue", "销量, 件": null, 备注: "第一行\n第二行" },
+		]);
+	});
+
+	it("should infer the format from file names", () => {
+		expect(inferDataFormat("sales.TSV")).toBe("tsv");
+		expect(inferDataFormat("sales.xlsx")).toBeUndefined();
+	});
+});
+
+describe("exportData", () => {
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	const mountSales = () =>
+		mountChart({
+			option: {
+				xAxis: { type: "category", data: ["Mon", "Tue", "Wed"] },
+				yAxis: { type: "value" },
+				series: [
+					{ name: "PV", type: "bar", data: [120, 200, 150] },
+					{ name: "UV", type: "line", data: [80, 90] },
+				],
+			},
+		});
+
+	it("should export series aligned on the category axis", async () => {
+		const { wrapper, chart } = mountSales();
+		await nextTick();
+
+		expect(chart().exportData()).toBe(
+			",PV,UV\r\nMon,120,80\r\nTue,200,90\r\nWed,150,",
+		);
+		expect(JSON.parse(chart().exportData({ format: "json" }))[2]).toEqual({
+			"": "Wed",
+			PV: 150,
+			UV: null,
+		});
+		wrapper.unmount();
+	});
+
+	it("should copy tsv to the clipboard", async () => {
+		const writeText = vi.fn().mockResolvedValue(undefined);
+		vi.stubGlobal("navigator", { clipboard: { writeText } });
+		const { wrapper, chart } = mountSales();
+		await nextTick();
+
+		await chart().copyData();
+		expect(writeText).toHaveBeenCalledWith(
+			"\tPV\tUV\r\nMon\t120\t80\r\nTue\t200\t90\r\nWed\t150\t",
+		);
+		wrapper.unmount();
+	});
+
+	it("should fall back to execCommand without the Clipboard API", async () => {
+		vi.stubGlobal("navigator", {});
+		let copied = "";
+		const execCommand = vi.fn(() => {
+			copied = document.querySelector("textarea")?.value ?? "";
+			return true;
+		});
+		document.execCommand = execCommand;
+
+		await copyText("a\tb");
+		expect(execCommand).toHaveBeenCalledWith("copy");
+		expect(copied).toBe("a\tb");
+		expect(document.querySelector("textarea")).toBeNull();
+
+		execCommand.mockReturnValue(false);
+		await expect(copyText("a")).rejects.toThrow("不支持复制到剪贴板");
+		Reflect.deleteProperty(document, "execCommand");
+	});
+
+	it("should download data as a file", async () => {
+		vi.useFakeTimers();
+		const createObjectURL = vi.fn((_: Blob) => "blob:data");
+		const revokeObjectURL = vi.fn();
+		vi.stubGlobal("URL", { createObjectURL, revokeObjectURL });
+		const click = vi
+			.spyOn(HTMLAnchorElement.prototype, "click")
+			.mockImplementation(() => {});
+
+		downloadData("a,b", "sales.csv");
+		const blob = createObjectURL.mock.calls[0][0];
+		expect(blob.type).toBe("text/csv;charset=utf-8");
+		// UTF-8 BOM 占 3 字节
+		expect(blob.size).toBe(6);
+		expect(click).toHaveBeenCalledTimes(1);
+		// 下载开始后才释放链接
+		expect(revokeObjectURL).not.toHaveBeenCalled();
+		vi.runAllTimers();
+		expect(revokeObjectURL).toHaveBeenCalledWith("blob:data");
+		expect(click.mock.invocationCallOrder[0]).toBeLessThan(
+			revokeObjectURL.mock.invocationCallOrder[0],
+		);
+
+		const { wrapper, chart } = mountSales();
+		await nextTick();
+		chart().downloadData("sales.json");
+		expect(createObjectURL.mock.calls[1][0].type).toBe(
+			"application/json;charset=utf-8",
+		);
+		vi.runAllTimers();
+		expect(revokeObjectURL).toHaveBeenCalledTimes(2);
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import { toDataTable } from "../index";
+
+describe("toDataTable", () => {
+	it("should flatten object row datasets", () => {
+		const table = toDataTable({
+			dataset: {
+				source: [
+					{ month: "Jan", pv: 120 },
+					{ month: "Feb", pv: 200, uv: 90 },
+				],
+			},
+		});
+
+		expect(table.columns).toEqual(["month", "pv", "uv"]);
+		expect(table.rows).toEqual([
+			["Jan", 120, null],
+			["Feb", 200, 90],
+		]);
+	});
+
+	it("should detect the header row of array datasets", () => {
+		const table = toDataTable({
+			dataset: [
+				{
+					source: [
+						["month", "pv"],
+						["Jan", 120],
+						["Feb", 200],
+					],
+				},
+			],
+		});
+
+		expect(table).toEqual({
+			columns: ["month", "pv"],
+			rows: [
+				["Jan", 120],
+				["Feb", 200],
+			],
+		});
+	});
+
+	it("should name columns of headerless array datasets", () => {
+		const table = toDataTable({
+			dataset: {
+				source: [
+					[1, 2],
+					[3, 4],
+				],
+			},
+		});
+
+		expect(table).toEqual({
+			columns: ["column0", "column1"],
+			rows: [
+				[1, 2],
+				[3, 4],
+			],
+		});
+	});
+
+	it("should flatten column-oriented datasets", () => {
+		const table = toDataTable({
+			dataset: { source: { month: ["Jan", "Feb"], pv: [1, 2] } },
+		});
+
+		expect(table).toEqual({
+			columns: ["month", "pv"],
+			rows: [
+				["Jan", 1],
+				["Feb", 2],
+			],
+		});
+	});
+
+	it("should align series on the category axis", () => {
+		const table = toDataTable({
+			xAxis: { type: "category", name: "day", data: ["Mon", "Tue", "Wed"] },
+			series: [
+				{ name: "PV", type: "bar", data: [120, { value: 200 }, "-"] },
+				{ type: "line", data: [1, 2] },
+			],
+		});
+
+		expect(table.columns).toEqual(["day", "PV", "series1"]);
+		expect(table.rows).toEqual([
+			["Mon", 120, 1],
+			["Tue", 200, 2],
+			["Wed", null, null],
+		]);
+	});
+
+	it("should align coordinate data by x value", () => {
+		const table = toDataTable({
+			xAxis: { type: "time" },
+			series: [
+				{
+					name: "a",
+					data: [
+						["2024-01-01", 1],
+						["2024-01-02", 2],
+					],
+				},
+				{ name: "b", data: [{ value: ["2024-01-02", 5] }, ["2024-01-03", 6]] },
+			],
+		});
+
+		expect(table.columns).toEqual(["", "a", "b"]);
+		expect(table.rows).toEqual([
+			["2024-01-01", 1, null],
+			["2024-01-02", 2, 5],
+			["2024-01-03", null, 6],
+		]);
+	});
+
+	it("should list name and value pairs for pie series", () => {
+		expect(
+			toDataTable({
+				series: [
+					{
+						type: "pie",
+						data: [
+							{ name: "A", value: 1 },
+							{ name: "B", value: 2 },
+						],
+					},
+				],
+			}),
+		).toEqual({
+			columns: ["name", "value"],
+			rows: [
+				["A", 1],
+				["B", 2],
+			],
+		});
+
+		expect(
+			toDataTable({
+				series: [
+					{ name: "x", type: "pie", data: [{ name: "A", value: 1 }] },
+					{ name: "y", type: "pie", data: [{ name: "B", value: 2 }] },
+				],
+			}),
+		).toEqual({
+			columns: ["series", "name", "value"],
+			rows: [
+				["x", "A", 1],
+				["y", "B", 2],
+			],
+		});
+	});
+
+	it("should export the dataset the series use", () => {
+		const table = toDataTable({
+			dataset: [
+				{ source: [{ month: "Jan", pv: 120 }] },
+				{ id: "uv", source: [{ month: "Jan", uv: 80 }] },
+			],
+			series: [{ type: "bar", datasetId: "uv" }],
+		});
+
+		expect(table).toEqual({ columns: ["month", "uv"], rows: [["Jan", 80]] });
+		expect(
+			toDataTable({
+				dataset: [
+					{ source: [{ month: "Jan", pv: 120 }] },
+					{ source: [{ month: "Feb", pv: 200 }] },
+				],
+				series: [{ type: "bar", datasetIndex: 1 }],
+			}).rows,
+		).toEqual([["Feb", 200]]);
+	});
+
+	it("should apply dataset transforms", () => {
+		const table = toDataTable({
+			dataset: [
+				{
+					source: [
+						{ region: "north", amount: 10 },
+						{ region: "south", amount: 5 },
+						{ region: "north", amount: 20 },
+					],
+				},
+				{
+					transform: [
+						{
+							type: "lazyhand:groupBy",
+							config: {
+								dimensions: "region",
+								measures: [{ dimension: "amount", method: "sum" }],
+							},
+						},
+						{ type: "sort", config: { dimension: "amount", order: "desc" } },
+					],
+				},
+			],
+			series: [{ type: "bar", datasetIndex: 1 }],
+		});
+
+		expect(table).toEqual({
+			columns: ["region", "amount"],
+			rows: [
+				["north", 30],
+				["south", 5],
+			],
+		});
+	});
+
+	it("should read the current timeline frame of baseOption charts", () => {
+		const table = toDataTable({
+			baseOption: {
+				timeline: { currentIndex: 1 },
+				xAxis: { type: "category", data: ["Mon", "Tue"] },
+				series: [{ name: "PV", type: "bar" }],
+			},
+			options: [{ series: [{ data: [1, 2] }] }, { series: [{ data: [3, 4] }] }],
+		});
+
+		expect(table).toEqual({
+			columns: ["", "PV"],
+			rows: [
+				["Mon", 3],
+				["Tue", 4],
+			],
+		});
+		expect(
+			toDataTable({
+				baseOption: { dataset: { source: [{ month: "Jan", pv: 120 }] } },
+				media: [{ query: { maxWidth: 500 }, option: {} }],
+			}).rows,
+		).toEqual([["Jan", 120]]);
+	});
+
+	it("should return an empty table without data", () => {
+		expect(toDataTable({ series: [{ type: "bar" }] })).toEqual({
+			columns: [],
+			rows: [],
+		});
+	});
+});
@@ -0,0 +1,79 @@
+import type { Component, VNodeChild } from "vue";
+import type { UseEchartsOptions, UseEchartsResult } from "../../../hooks";
+import { render } from "@testing-library/vue";
+import { vi } from "vitest";
+import { defineComponent, h, ref } from "vue";
+import { useEcharts } from "../../../hooks";
+import Echarts from "../Echarts.vue";
+
+/**
+ * 模拟图表容器
+ * @description jsdom 未实现 canvas，文字测量时静默回退；jsdom 不计算布局，手动提供容器尺寸。
+ * 在 beforeEach 中调用，由 afterEach 中的 vi.restoreAllMocks 还原
+ * @param width - 容器宽度(px)
+ * @param height - 容器高度(px)
+ */
+export function mockChartContainer(width = 400, height = 300): void {
+	vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+	vi.spyOn(HTMLElement.prototype, "clientWidth", "get").mockReturnValue(width);
+	vi.spyOn(HTMLElement.prototype, "clientHeight", "get").mockReturnValue(
+		height,
+	);
+}
+
+/**
+ * 以 svg 渲染器挂载 Echarts 组件
+ * @param props - 组件属性，传入函数时在每次渲染时读取，用于响应式属性
+ * @param slots - 组件插槽
+ * @returns 渲染结果、组件实例与 ECharts 实例
+ */
+export function mountChart(
+	props: Record<string, any> | (() => Record<string, any>),
+	slots?: Record<string, (scope: any) => VNodeChild>,
+) {
+	let chart: any;
+	const resolveProps = (): Record<string, any> => ({
+		ref: (value: any) => {
+			chart = value;
+		},
+		renderer: "svg",
+		...(typeof props === "function" ? props() : props),
+	});
+	const wrapper = render(
+		defineComponent({
+			// 属性由各测试自行组织，不按组件属性做类型检查
+			setup: () => () => h(Echarts as Component, resolveProps(), slots),
+		}),
+	);
+	return {
+		wrapper,
+		chart: () => chart,
+		instance: () => chart.getInstance(),
+	};
+}
+
+/**
+ * 在宿主组件中以 svg 渲染器调用 useEcharts
+ * @param option - 图表配置
+ * @param options - useEcharts 配置项
+ * @param setup - 在同一个组件中接入其余组合式函数
+ * @returns 渲染结果与 useEcharts 的返回值
+ */
+export function mountUseEcharts(
+	option: any,
+	options: UseEchartsOptions = {},
+	setup?: (chart: UseEchartsResult) => void,
+) {
+	let chart!: UseEchartsResult;
+	const wrapper = render(
+		defineComponent({
+			setup() {
+				const el = ref<HTMLDivElement>();
+				chart = useEcharts(el, option, { renderer: "svg", ...options });
+				setup?.(chart);
+				return () => h("div", { ref: el });
+			},
+		}),
+	);
+	return { chart, wrapper };
+}
@@ -0,0 +1,66 @@
+import type { EChartsType } from "echarts/core";
+import { hasTheme } from "../config";
+import { isDevelopment } from "../utils";
+
+/**
+ * 组件支持的主题：内置主题、`auto`（跟随系统配色）或任意已注册主题名
+ */
+export type EchartsTheme = "dark" | "light" | "auto" | (string & {});
+
+/**
+ * 将组件的 `theme` 属性解析为 `echarts.init` 使用的主题
+ * @param theme - 组件的主题属性
+ * @param prefersDark - 系统是否为深色模式，`auto` 时使用
+ * @returns 主题名称，`null` 表示默认主题
+ */
+export function resolveTheme(
+	theme: EchartsTheme | undefined,
+	prefersDark: boolean,
+): string | null {
+	if (!theme || theme === "light") return null;
+	if (theme === "auto") return prefersDark ? "dark" : null;
+	if (hasTheme(theme)) return theme;
+	if (isDevelopment()) {
+		console.warn(
+			`[lazyhand-tool] 主题 "${theme}" 未注册，请先通过 registerTheme 注册`,
+		);
+	}
+	return null;
+}
+
+/**
+ * 图表重建时需要保留的交互状态
+ */
+export interface ChartViewState {
+	legend: Array<{ selected?: Record<string, boolean> }>;
+	dataZoom: Array<{ start?: number; end?: number }>;
+}
+
+/**
+ * 读取图例选中与区域缩放状态
+ * @description 切换主题需要销毁并重建实例，先记录用户的交互状态以便重建后恢复
+ */
+export function captureViewState(instance: EChartsType): ChartViewState {
+	const option = instance.getOption() as Record<string, any>;
+	const legend = (option.legend ?? []) as Array<Record<string, any>>;
+	const dataZoom = (option.dataZoom ?? []) as Array<Record<string, any>>;
+	return {
+		legend: legend.map(({ selected }) => ({ selected })),
+		dataZoom: dataZoom.map(({ start, end }) => ({ start, end })),
+	};
+}
+
+/**
+ * 恢复 {@link captureViewState} 记录的交互状态
+ */
+export function restoreViewState(
+	instance: EChartsType,
+	state: ChartViewState,
+): void {
+	const option: Record<string, unknown> = {};
+	if (state.legend.length) option.legend = state.legend;
+	if (state.dataZoom.length) option.dataZoom = state.dataZoom;
+	if (Object.keys(option).length) {
+		instance.setOption(option);
+	}
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { registerTheme } from "../../config";
+import { captureViewState, resolveTheme, restoreViewState } from "../index";
+
+describe("resolveTheme", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+	});
+
+	it("should map light and empty themes to the default theme", () => {
+		expect(resolveTheme("light", false)).toBeNull();
+		expect(resolveTheme(undefined, true)).toBeNull();
+	});
+
+	it("should follow the system color scheme in auto mode", () => {
+		expect(resolveTheme("auto", true)).toBe("dark");
+		expect(resolveTheme("auto", false)).toBeNull();
+	});
+
+	it("should honor registered themes", () => {
+		registerTheme("corporate", { color: ["#123456"] });
+
+		expect(resolveTheme("dark", false)).toBe("dark");
+		expect(resolveTheme("corporate", false)).toBe("corporate");
+	});
+
+	it("should warn and fall back for unknown themes", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(resolveTheme("unknown", false)).toBeNull();
+		expect(warn).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not warn in a production build of the consumer", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.stubEnv("NODE_ENV", "production");
+
+		expect(resolveTheme("unknown", false)).toBeNull();
+		expect(warn).not.toHaveBeenCalled();
+	});
+});
+
+describe("view state", () => {
+	it("should capture and restore legend selection and zoom window", () => {
+		const instance = {
+			getOption: vi.fn(() => ({
+				legend: [{ selected: { a: false, b: true }, top: 0 }],
+				dataZoom: [{ start: 20, end: 60, type: "inside" }],
+			})),
+			setOption: vi.fn(),
+		} as any;
+
+		const state = captureViewState(instance);
+		expect(state).toEqual({
+			legend: [{ selected: { a: false, b: true } }],
+			dataZoom: [{ start: 20, end: 60 }],
+		});
+
+		restoreViewState(instance, state);
+		expect(instance.setOption).toHaveBeenCalledWith(state);
+	});
+
+	it("should skip restoring when there is nothing to restore", () => {
+		const instance = {
+			getOption: vi.fn(() => ({})),
+			setOption: vi.fn(),
+		} as any;
+
+		restoreViewState(instance, captureViewState(instance));
+		expect(instance.setOption).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,98 @@
+import type { TooltipComponentFormatterCallbackParams } from "echarts";
+import type { AppContext, ShallowRef, VNodeChild } from "vue";
+import type { AnyOption } from "../utils";
+import { tryOnScopeDispose } from "@vueuse/core";
+import {
+	defineComponent,
+	getCurrentInstance,
+	h,
+	render,
+	shallowRef,
+} from "vue";
+
+export type TooltipParams = TooltipComponentFormatterCallbackParams;
+
+export interface ChartTooltip {
+	/**
+	 * 提示框内容的渲染根节点，由 formatter 交给 ECharts 放入提示框
+	 */
+	container: HTMLElement | undefined;
+	/**
+	 * 当前提示框的参数，提示框隐藏后为 null
+	 */
+	params: ShallowRef<TooltipParams | null>;
+	formatter: (params: TooltipParams) => string | HTMLElement;
+	/**
+	 * 卸载提示框内容，在提示框隐藏或实例重建时调用
+	 */
+	hide: () => void;
+}
+
+const TooltipContent = defineComponent({
+	props: {
+		params: { type: null, required: true },
+		content: { type: Function, required: true },
+	},
+	setup(props) {
+		return () => props.content(props.params);
+	},
+});
+
+/**
+ * 提示框内容的渲染根节点与状态
+ * @description 所有提示框内容复用同一个渲染根节点，formatter 返回前同步渲染，
+ * 使 ECharts 测量尺寸与定位时内容已经就绪；内容继承组件的 provide/inject 上下文
+ * @param content - 根据参数渲染提示框内容
+ */
+export function useChartTooltip(
+	content: (params: TooltipParams) => VNodeChild,
+): ChartTooltip {
+	const container =
+		typeof document !== "undefined" ? document.createElement("div") : undefined;
+	const params = shallowRef<TooltipParams | null>(null);
+	const instance = getCurrentInstance();
+
+	function hide() {
+		params.value = null;
+		if (container) render(null, container);
+	}
+
+	tryOnScopeDispose(hide);
+
+	return {
+		container,
+		params,
+		formatter(value) {
+			params.value = value;
+			if (!container) return "";
+			const vnode = h(TooltipContent, { params: value, content });
+			if (instance) {
+				// 没有父组件的根节点从 appContext 继承 provides，这里换成组件自身的 provides
+				vnode.appContext = {
+					...instance.appContext,
+					provides: (instance as unknown as Pick<AppContext, "provides">)
+						.provides,
+				};
+			}
+			render(vnode, container);
+			return container;
+		},
+		hide,
+	};
+}
+
+/**
+ * 为配置中的提示框设置 formatter，没有提示框配置时补充一个默认提示框
+ */
+export function applyTooltipFormatter<T extends AnyOption>(
+	option: T,
+	formatter: ChartTooltip["formatter"],
+): T {
+	const tooltip = option.tooltip ?? {};
+	return {
+		...option,
+		tooltip: Array.isArray(tooltip)
+			? tooltip.map((item) => ({ ...item, formatter }))
+			: { ...tooltip, formatter },
+	};
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render } from "@testing-library/vue";
+import { defineComponent, h, inject, nextTick, provide } from "vue";
+import Echarts from "../../Echarts.vue";
+import { mockChartContainer } from "../../tests/setup";
+import { applyTooltipFormatter, useChartTooltip } from "../index";
+
+describe("applyTooltipFormatter", () => {
+	it("should keep existing tooltip settings", () => {
+		const formatter = () => "";
+
+		expect(
+			applyTooltipFormatter({ tooltip: { trigger: "axis" } }, formatter),
+		).toEqual({ tooltip: { trigger: "axis", formatter } });
+		expect(applyTooltipFormatter({}, formatter)).toEqual({
+			tooltip: { formatter },
+		});
+		expect(
+			applyTooltipFormatter({ tooltip: [{ trigger: "item" }] }, formatter),
+		).toEqual({ tooltip: [{ trigger: "item", formatter }] });
+	});
+
+	it("should render into the shared container before returning it", () => {
+		const tooltip = useChartTooltip((params: any) => h("i", params.name));
+
+		expect(tooltip.formatter({ name: "Mon" } as any)).toBe(tooltip.container);
+		expect(tooltip.container?.innerHTML).toBe("<i>Mon</i>");
+		expect(tooltip.formatter({ name: "Tue" } as any)).toBe(tooltip.container);
+		expect(tooltip.container?.innerHTML).toBe("<i>Tue</i>");
+		expect(tooltip.params.value).toEqual({ name: "Tue" });
+
+		tooltip.hide();
+		expect(tooltip.params.value).toBeNull();
+		expect(tooltip.container?.innerHTML).toBe("");
+	});
+});
+
+describe("#tooltip slot", () => {
+	beforeEach(() => {
+		mockChartContainer();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should render the slot into the tooltip with the parent context", async () => {
+		// 只有渲染了内容的提示框才有尺寸
+		vi.spyOn(HTMLElement.prototype, "offsetWidth", "get").mockImplementation(
+			function (this: HTMLElement) {
+				return this.querySelector(".tip") ? 120 : 0;
+			},
+		);
+		vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockImplementation(
+			function (this: HTMLElement) {
+				return this.querySelector(".tip") ? 40 : 0;
+			},
+		);
+		const position = vi.fn(() => [10, 20]);
+		let chart: any;
+		const Label = defineComponent({
+			props: { name: String },
+			setup(props) {
+				const prefix = inject("prefix", "");
+				return () => h("b", { class: "tip" }, `${prefix}${props.name}`);
+			},
+		});
+		const Host = defineComponent({
+			setup() {
+				provide("prefix", "日期：");
+				return () =>
+					h(
+						Echarts,
+						{
+							ref: (value: any) => {
+								chart = value;
+							},
+							renderer: "svg",
+							option: {
+								tooltip: { trigger: "item", position },
+								xAxis: { type: "category", data: ["Mon", "Tue"] },
+								yAxis: {},
+								series: [{ type: "bar", data: [1, 2] }],
+							},
+						},
+						{
+							tooltip: ({ params }: any) => h(Label, { name: params.name }),
+						},
+					);
+			},
+		});
+		const wrapper = render(Host);
+		await nextTick();
+		await nextTick();
+
+		chart
+			.getInstance()
+			.dispatchAction({ type: "showTip", seriesIndex: 0, dataIndex: 1 });
+		const tip = wrapper.container.querySelector(".tip");
+		expect(tip?.textContent).toBe("日期：Tue");
+		const calls = position.mock.calls as any[][];
+		expect(calls[calls.length - 1][4].contentSize).toEqual([120, 40]);
+		const el = tip?.closest<HTMLElement>("[style*='z-index']");
+		expect([el?.style.left, el?.style.top]).toEqual(["10px", "20px"]);
+
+		chart.getInstance().dispatchAction({ type: "hideTip" });
+		await nextTick();
+		expect(wrapper.container.querySelector(".tip")).toBeNull();
+		wrapper.unmount();
+	});
+});
@@ -0,0 +1,356 @@
+import type { registerTransform } from "echarts/core";
+import type { ComputedRef, MaybeRefOrGetter } from "vue";
+import { computed, toValue } from "vue";
+import { toArray } from "../utils";
+
+/**
+ * 数据集中的一行记录
+ */
+export type TransformRow = Record<string, unknown>;
+
+/**
+ * 比较条件，写法参照 ECharts 内置 filter，例如 `{ dimension: "pv", ">": 100 }`
+ */
+export interface FilterCondition {
+	dimension: string;
+	"="?: unknown;
+	"!="?: unknown;
+	">"?: number | string;
+	">="?: number | string;
+	"<"?: number | string;
+	"<="?: number | string;
+	in?: unknown[];
+}
+
+export type FilterConfig =
+	| FilterCondition
+	| { and: FilterConfig[] }
+	| { or: FilterConfig[] }
+	| { not: FilterConfig };
+
+export type AggregateMethod = "sum" | "avg" | "count" | "min" | "max";
+
+export interface Measure {
+	/**
+	 * 参与聚合的字段，`count` 时可省略
+	 */
+	dimension?: string;
+	method: AggregateMethod;
+	/**
+	 * 输出字段名，默认为 `dimension`，`count` 时默认为 `count`
+	 */
+	as?: string;
+}
+
+export interface GroupByConfig {
+	/**
+	 * 分组字段
+	 */
+	dimensions: string | string[];
+	measures: Measure[];
+}
+
+export interface SortConfig {
+	dimension: string;
+	order?: "asc" | "desc";
+}
+
+export interface PivotConfig {
+	/**
+	 * 作为行的字段
+	 */
+	row: string;
+	/**
+	 * 取值展开为列的字段
+	 */
+	column: string;
+	/**
+	 * 填充单元格的字段
+	 */
+	value: string;
+	/**
+	 * 同一单元格存在多条记录时的聚合方式，默认 sum
+	 */
+	method?: AggregateMethod;
+}
+
+export interface TopNConfig {
+	dimension: string;
+	n: number;
+	/**
+	 * 默认 desc，即取最大的 n 条
+	 */
+	order?: "asc" | "desc";
+}
+
+/**
+ * 转换步骤
+ * @description 注册为 ECharts transform 时类型名带 `lazyhand:` 前缀，例如
+ * `{ type: "lazyhand:groupBy", config: { ... } }`；filter 在 useChartDataset 中还可以传入函数
+ */
+export type TransformStep =
+	| { type: "filter"; config: FilterConfig | ((row: TransformRow) => boolean) }
+	| { type: "groupBy"; config: GroupByConfig }
+	| { type: "sort"; config: SortConfig | SortConfig[] }
+	| { type: "pivot"; config: PivotConfig }
+	| { type: "topN"; config: TopNConfig };
+
+function toNumber(value: unknown): number {
+	return typeof value === "number" ? value : Number(value);
+}
+
+function compare(
+	a: unknown,
+	b: unknown,
+	order: "asc" | "desc" = "asc",
+): number {
+	// 空值无论升序降序总是排在最后
+	const aEmpty = a === undefined || a === null || a === "";
+	const bEmpty = b === undefined || b === null || b === "";
+	if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+	const x = toNumber(a);
+	const y = toNumber(b);
+	const result =
+		!Number.isNaN(x) && !Number.isNaN(y)
+			? x - y
+			: String(a).localeCompare(String(b));
+	return order === "desc" ? -result : result;
+}
+
+function matches(row: TransformRow, config: FilterConfig): boolean {
+	if ("and" in config) return config.and.every((item) => matches(row, item));
+	if ("or" in config) return config.or.some((item) => matches(row, item));
+	if ("not" in config) return !matches(row, config.not);
+	const value = row[config.dimension];
+	if ("=" in config && value !== config["="]) return false;
+	if ("!=" in config && value === config["!="]) return false;
+	if (config.in && !config.in.includes(value)) return false;
+	if (config[">"] !== undefined && !(compare(value, config[">"]) > 0))
+		return false;
+	if (config[">="] !== undefined && !(compare(value, config[">="]) >= 0))
+		return false;
+	if (config["<"] !== undefined && !(compare(value, config["<"]) < 0))
+		return false;
+	if (config["<="] !== undefined && !(compare(value, config["<="]) <= 0))
+		return false;
+	return true;
+}
+
+/**
+ * 聚合一组数值，非数值会被忽略（count 统计记录数）
+ * @returns 没有数值时 sum 为 0，avg、min、max 为 null
+ */
+export function aggregate(
+	values: unknown[],
+	method: AggregateMethod,
+): number | null {
+	if (method === "count") return values.length;
+	// Number(null) 与 Number("") 为 0，空值不参与聚合
+	const numbers = values
+		.filter((value) => value !== null && value !== undefined && value !== "")
+		.map(toNumber)
+		.filter((value) => !Number.isNaN(value));
+	if (!numbers.length) return method === "sum" ? 0 : null;
+	switch (method) {
+		case "sum":
+			return numbers.reduce((sum, value) => sum + value, 0);
+		case "avg":
+			return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+		case "min":
+			return numbers.reduce((min, value) => Math.min(min, value));
+		case "max":
+			return numbers.reduce((max, value) => Math.max(max, value));
+	}
+}
+
+function groupBy(rows: TransformRow[], config: GroupByConfig): TransformRow[] {
+	const dimensions = toArray(config.dimensions);
+	const groups = new Map<string, TransformRow[]>();
+	for (const row of rows) {
+		const key = JSON.stringify(dimensions.map((dim) => row[dim]));
+		const group = groups.get(key);
+		group ? group.push(row) : groups.set(key, [row]);
+	}
+	return [...groups.values()].map((group) => {
+		const result: TransformRow = {};
+		for (const dim of dimensions) result[dim] = group[0][dim];
+		for (const { dimension, method, as } of config.measures) {
+			const name = as ?? (method === "count" ? "count" : dimension);
+			if (!name) continue;
+			result[name] = aggregate(
+				dimension ? group.map((row) => row[dimension]) : group,
+				method,
+			);
+		}
+		return result;
+	});
+}
+
+function sort(
+	rows: TransformRow[],
+	config: SortConfig | SortConfig[],
+): TransformRow[] {
+	const orders = toArray(config);
+	return [...rows].sort((a, b) => {
+		for (const { dimension, order = "asc" } of orders) {
+			const result = compare(a[dimension], b[dimension], order);
+			if (result) return result;
+		}
+		return 0;
+	});
+}
+
+function pivot(rows: TransformRow[], config: PivotConfig): TransformRow[] {
+	const { row: rowDim, column, value, method = "sum" } = config;
+	const columns = new Set<string>();
+	const cells = new Map<unknown, Map<string, unknown[]>>();
+	for (const row of rows) {
+		const name = String(row[column]);
+		columns.add(name);
+		let line = cells.get(row[rowDim]);
+		if (!line) {
+			line = new Map();
+			cells.set(row[rowDim], line);
+		}
+		const values = line.get(name);
+		values ? values.push(row[value]) : line.set(name, [row[value]]);
+	}
+	return [...cells].map(([key, line]) => {
+		const result: TransformRow = { [rowDim]: key };
+		for (const name of columns) {
+			const values = line.get(name);
+			result[name] = values ? aggregate(values, method) : null;
+		}
+		return result;
+	});
+}
+
+function topN(rows: TransformRow[], config: TopNConfig): TransformRow[] {
+	const { dimension, n, order = "desc" } = config;
+	return sort(rows, { dimension, order }).slice(0, Math.max(0, n));
+}
+
+/**
+ * 依次执行转换步骤
+ * @param rows - 原始记录
+ * @param steps - 转换步骤
+ * @returns 转换后的记录，不会修改原始数据
+ * @example
+ * ```ts
+ * runPipeline(orders, [
+ *   { type: "filter", config: { dimension: "year", "=": 2024 } },
+ *   { type: "groupBy", config: { dimensions: "region", measures: [{ dimension: "amount", method: "sum" }] } },
+ *   { type: "topN", config: { dimension: "amount", n: 5 } },
+ * ])
+ * ```
+ */
+export function runPipeline(
+	rows: readonly TransformRow[],
+	steps: readonly TransformStep[],
+): TransformRow[] {
+	let result = [...rows];
+	for (const step of steps) {
+		switch (step.type) {
+			case "filter": {
+				const { config } = step;
+				result = result.filter((row) =>
+					typeof config === "function" ? config(row) : matches(row, config),
+				);
+				break;
+			}
+			case "groupBy":
+				result = groupBy(result, step.config);
+				break;
+			case "sort":
+				result = sort(result, step.config);
+				break;
+			case "pivot":
+				result = pivot(result, step.config);
+				break;
+			case "topN":
+				result = topN(result, step.config);
+				break;
+		}
+	}
+	return result;
+}
+
+type ExternalDataTransform = Parameters<typeof registerTransform>[0];
+type ExternalSource = Parameters<
+	ExternalDataTransform["transform"]
+>[0]["upstream"];
+
+/**
+ * 注册到 ECharts 的 transform 类型前缀
+ */
+export const TRANSFORM_NAMESPACE = "lazyhand";
+
+function readUpstream(upstream: ExternalSource): TransformRow[] {
+	const dimensions = upstream
+		.cloneAllDimensionInfo()
+		.map((info, index) => info.name ?? String(index));
+	return Array.from({ length: upstream.count() }, (_, dataIndex) => {
+		const row: TransformRow = {};
+		dimensions.forEach((name, dimIndex) => {
+			row[name] = upstream.retrieveValue(dataIndex, dimIndex);
+		});
+		return row;
+	});
+}
+
+function createTransform(type: TransformStep["type"]): ExternalDataTransform {
+	return {
+		type: `${TRANSFORM_NAMESPACE}:${type}`,
+		transform({ upstream, config }) {
+			const rows = runPipeline(readUpstream(upstream), [
+				{ type, config } as TransformStep,
+			]);
+			const dimensions = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+			return {
+				dimensions,
+				data: rows.map((row) =>
+					dimensions.map((dim) => row[dim] as string | number | null),
+				),
+			};
+		},
+	};
+}
+
+/**
+ * 可注册到 ECharts 的 dataset transform，在 config 中统一注册
+ * @example
+ * ```ts
+ * const option = {
+ *   dataset: [
+ *     { source: orders },
+ *     { transform: { type: "lazyhand:groupBy", config: { dimensions: "region", measures: [{ dimension: "amount", method: "sum" }] } } },
+ *   ],
+ *   series: [{ type: "bar", datasetIndex: 1 }],
+ * }
+ * ```
+ */
+export const DATASET_TRANSFORMS: ExternalDataTransform[] = (
+	["filter", "groupBy", "sort", "pivot", "topN"] as const
+).map(createTransform);
+
+/**
+ * 数据集转换 Hook
+ * @description 在组件内执行与 dataset transform 相同的转换，结果可直接作为 `dataset.source`；
+ * 只在数据源或步骤变化时重新计算
+ * @param source - 原始记录
+ * @param pipeline - 转换步骤
+ * @returns 转换后的记录
+ * @example
+ * ```ts
+ * const rows = useChartDataset(orders, [
+ *   { type: "pivot", config: { row: "month", column: "region", value: "amount" } },
+ * ])
+ * const option = computed(() => ({ dataset: { source: rows.value }, ... }))
+ * ```
+ */
+export function useChartDataset<T extends TransformRow>(
+	source: MaybeRefOrGetter<readonly T[] | null | undefined>,
+	pipeline: MaybeRefOrGetter<readonly TransformStep[]>,
+): ComputedRef<TransformRow[]> {
+	return computed(() => runPipeline(toValue(source) ?? [], toValue(pipeline)));
+}
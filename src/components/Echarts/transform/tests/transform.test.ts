@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from "vitest";
+import { nextTick, ref } from "vue";
+import { echarts } from "../../config";
+import { mockChartContainer } from "../../tests/setup";
+import type { TransformStep } from "../index";
+import { aggregate, runPipeline, useChartDataset } from "../index";
+
+const orders = [
+	{ month: "1月", region: "华东", amount: 120 },
+	{ month: "1月", region: "华北", amount: 80 },
+	{ month: "2月", region: "华东", amount: 200 },
+	{ month: "2月", region: "华东", amount: 40 },
+	{ month: "2月", region: "华南", amount: null },
+];
+
+describe("runPipeline", () => {
+	it("should filter with conditions and predicates", () => {
+		expect(
+			runPipeline(orders, [
+				{
+					type: "filter",
+					config: {
+						and: [
+							{ dimension: "region", "=": "华东" },
+							{ dimension: "amount", ">=": 100 },
+						],
+					},
+				},
+			]),
+		).toEqual([orders[0], orders[2]]);
+		expect(
+			runPipeline(orders, [
+				{ type: "filter", config: (row) => row.month === "1月" },
+				{
+					type: "filter",
+					config: { not: { dimension: "region", in: ["华北"] } },
+				},
+			]),
+		).toEqual([orders[0]]);
+	});
+
+	it("should group and aggregate", () => {
+		expect(
+			runPipeline(orders, [
+				{
+					type: "groupBy",
+					config: {
+						dimensions: "region",
+						measures: [
+							{ dimension: "amount", method: "sum" },
+							{ dimension: "amount", method: "avg", as: "avg" },
+							{ method: "count" },
+						],
+					},
+				},
+			]),
+		).toEqual([
+			{ region: "华东", amount: 360, avg: 120, count: 3 },
+			{ region: "华北", amount: 80, avg: 80, count: 1 },
+			{ region: "华南", amount: 0, avg: null, count: 1 },
+		]);
+	});
+
+	it("should sort by multiple dimensions and keep empty values last", () => {
+		const result = runPipeline(orders, [
+			{
+				type: "sort",
+				config: [
+					{ dimension: "month", order: "desc" },
+					{ dimension: "amount" },
+				],
+			},
+		]);
+
+		expect(result.map((row) => row.amount)).toEqual([40, 200, null, 80, 120]);
+	});
+
+	it("should pivot column values into dimensions", () => {
+		expect(
+			runPipeline(orders, [
+				{
+					type: "pivot",
+					config: { row: "month", column: "region", value: "amount" },
+				},
+			]),
+		).toEqual([
+			{ month: "1月", 华东: 120, 华北: 80, 华南: null },
+			{ month: "2月", 华东: 240, 华北: null, 华南: 0 },
+		]);
+	});
+
+	it("should take the top n rows", () => {
+		expect(
+			runPipeline(orders, [
+				{ type: "topN", config: { dimension: "amount", n: 2 } },
+			]).map((row) => row.amount),
+		).toEqual([200, 120]);
+	});
+
+	it("should not mutate the source", () => {
+		const source = [...orders];
+		runPipeline(source, [{ type: "sort", config: { dimension: "amount" } }]);
+
+		expect(source).toEqual(orders);
+	});
+
+	it("should aggregate numbers only", () => {
+		expect(aggregate([1, "2", "x", null], "sum")).toBe(3);
+		expect(aggregate([3, 1, 2], "min")).toBe(1);
+		expect(aggregate([3, 1, 2], "max")).toBe(3);
+		expect(aggregate([], "sum")).toBe(0);
+		expect(aggregate([], "avg")).toBeNull();
+		expect(aggregate(["x", null], "min")).toBeNull();
+		expect(aggregate(["x", null], "max")).toBeNull();
+	});
+});
+
+describe("dataset transforms", () => {
+	it("should be usable as registered ECharts transforms", () => {
+		mockChartContainer();
+		const chart = echarts.init(document.createElement("div"), null, {
+			renderer: "svg",
+			width: 400,
+			height: 300,
+		});
+		chart.setOption({
+			dataset: [
+				{ source: orders },
+				{
+					transform: [
+						{
+							type: "lazyhand:groupBy",
+							config: {
+								dimensions: "region",
+								measures: [{ dimension: "amount", method: "sum" }],
+							},
+						},
+						{ type: "lazyhand:topN", config: { dimension: "amount", n: 2 } },
+					],
+				},
+			],
+			xAxis: { type: "category" },
+			yAxis: {},
+			series: [{ type: "bar", datasetIndex: 1 }],
+		});
+
+		// 通过系列数据读取转换结果
+		const data = (chart as any).getModel().getSeriesByIndex(0).getData();
+		expect(data.count()).toBe(2);
+		expect(data.getByRawIndex("amount", 0)).toBe(360);
+		chart.dispose();
+		vi.restoreAllMocks();
+	});
+});
+
+describe("useChartDataset", () => {
+	it("should recompute when the source changes", async () => {
+		const source = ref(orders.slice(0, 2));
+		const pipeline: TransformStep[] = [
+			{ type: "sort", config: { dimension: "amount" } },
+		];
+		const rows = useChartDataset(source, pipeline);
+
+		expect(rows.value.map((row) => row.amount)).toEqual([80, 120]);
+
+		source.value.push({ month: "3月", region: "华南", amount: 10 });
+		await nextTick();
+		expect(rows.value.map((row) => row.amount)).toEqual([10, 80, 120]);
+	});
+});
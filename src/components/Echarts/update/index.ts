@@ -0,0 +1,156 @@
+import type { SetOptionOpts } from "echarts/core";
+import type { AnyOption } from "../utils";
+import { cloneDeep, isEqual } from "radashi";
+import { toArray } from "../utils";
+
+/**
+ * 图表配置的更新策略
+ */
+export interface EchartsUpdateOptions {
+	/**
+	 * 是否不与旧配置合并，未开启 diff 时默认为 true
+	 */
+	notMerge?: boolean;
+	/**
+	 * 以替换方式合并的组件类型，例如 ["series"]
+	 */
+	replaceMerge?: string | string[];
+	/**
+	 * 是否延迟到下一帧更新
+	 */
+	lazyUpdate?: boolean;
+	/**
+	 * 是否不触发事件
+	 */
+	silent?: boolean;
+	/**
+	 * 只发送发生变化的组件，保留过渡动画、图例选中与缩放状态
+	 * @description 组件内被删除的属性不会被清除，这类变更需要关闭 diff 或使用 notMerge
+	 */
+	diff?: boolean;
+}
+
+export interface OptionPatch {
+	option: AnyOption;
+	replaceMerge: string[];
+}
+
+/**
+ * 是否为组件配置（对象或对象数组），这类配置可通过 replaceMerge 删除
+ */
+function isComponentValue(value: unknown): boolean {
+	const items = toArray(value);
+	return (
+		items.length > 0 &&
+		items.every(
+			(item) =>
+				item !== null && typeof item === "object" && !Array.isArray(item),
+		)
+	);
+}
+
+/**
+ * 计算两份配置之间的差异
+ * @description 以顶层配置项为粒度比较：未变化的配置项不发送；数组长度不变时只发送变化的元素，
+ * 其余位置以空对象占位；数组长度变化或配置项被删除时通过 replaceMerge 替换该类组件
+ * @param prev - 上一次写入图表的配置
+ * @param next - 新配置
+ * @param replaceKeys - 调用方指定以 replaceMerge 更新的组件类型，这些组件变化时完整发送
+ * @returns 需要写入的配置与 replaceMerge 列表，没有变化时返回 null
+ */
+export function diffOption(
+	prev: AnyOption,
+	next: AnyOption,
+	replaceKeys: string[] = [],
+): OptionPatch | null {
+	const option: AnyOption = {};
+	const replaceMerge: string[] = [];
+
+	for (const key of Object.keys(next)) {
+		const before = prev[key];
+		const after = next[key];
+		if (isEqual(before, after)) continue;
+
+		if (
+			!replaceKeys.includes(key) &&
+			Array.isArray(before) &&
+			Array.isArray(after) &&
+			before.length === after.length &&
+			isComponentValue(after)
+		) {
+			option[key] = after.map((item, i) =>
+				isEqual(before[i], item) ? {} : item,
+			);
+			continue;
+		}
+
+		option[key] = after;
+		if (Array.isArray(after) && isComponentValue(before)) {
+			replaceMerge.push(key);
+		}
+	}
+
+	for (const key of Object.keys(prev)) {
+		if (key in next || !isComponentValue(prev[key])) continue;
+		option[key] = [];
+		replaceMerge.push(key);
+	}
+
+	return Object.keys(option).length ? { option, replaceMerge } : null;
+}
+
+/**
+ * 按更新策略生成 setOption 的参数
+ * @description diff 模式下会记录本次写入的配置快照用于下次比较；首次写入或没有快照时总是完整写入
+ */
+export function createOptionUpdater() {
+	let snapshot: AnyOption | undefined;
+
+	return {
+		/**
+		 * @returns 需要写入的配置与参数，没有变化时返回 null
+		 */
+		resolve(
+			option: AnyOption,
+			update: EchartsUpdateOptions = {},
+		): { option: AnyOption; opts: SetOptionOpts } | null {
+			const { diff, notMerge, replaceMerge, lazyUpdate, silent } = update;
+			if (!diff) {
+				snapshot = undefined;
+				return {
+					option,
+					opts: {
+						notMerge: notMerge ?? true,
+						replaceMerge,
+						lazyUpdate,
+						silent,
+					},
+				};
+			}
+
+			const prev = snapshot;
+			snapshot = cloneDeep(option);
+			if (!prev) {
+				return { option, opts: { notMerge: true, lazyUpdate, silent } };
+			}
+			const extra = ([] as string[]).concat(replaceMerge ?? []);
+			const patch = diffOption(prev, option, extra);
+			if (!patch) return null;
+			const merged = [...new Set([...patch.replaceMerge, ...extra])];
+			return {
+				option: patch.option,
+				opts: {
+					replaceMerge: merged.length ? merged : undefined,
+					lazyUpdate,
+					silent,
+				},
+			};
+		},
+		/**
+		 * 丢弃快照，下次写入将完整写入（例如实例重建后）
+		 */
+		reset() {
+			snapshot = undefined;
+		},
+	};
+}
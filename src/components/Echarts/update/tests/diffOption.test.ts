@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { createOptionUpdater, diffOption } from "../index";
+
+const base = () => ({
+	title: { text: "PV" },
+	xAxis: { type: "category", data: ["Mon", "Tue"] },
+	series: [
+		{ type: "bar", data: [1, 2] },
+		{ type: "line", data: [3, 4] },
+	],
+});
+
+describe("diffOption", () => {
+	it("should return null when nothing changed", () => {
+		expect(diffOption(base(), base())).toBeNull();
+	});
+
+	it("should only send changed top-level keys", () => {
+		const next = { ...base(), title: { text: "UV" } };
+
+		expect(diffOption(base(), next)).toEqual({
+			option: { title: { text: "UV" } },
+			replaceMerge: [],
+		});
+	});
+
+	it("should patch series by index and keep unchanged items as placeholders", () => {
+		const next = base();
+		next.series[1].data = [5, 6];
+
+		expect(diffOption(base(), next)).toEqual({
+			option: { series: [{}, { type: "line", data: [5, 6] }] },
+			replaceMerge: [],
+		});
+	});
+
+	it("should replace components when the array length changes", () => {
+		const next = base();
+		next.series.pop();
+
+		expect(diffOption(base(), next)).toEqual({
+			option: { series: [{ type: "bar", data: [1, 2] }] },
+			replaceMerge: ["series"],
+		});
+	});
+
+	it("should clear removed components", () => {
+		const { title, ...next } = base();
+
+		expect(diffOption({ ...next, title }, next)).toEqual({
+			option: { title: [] },
+			replaceMerge: ["title"],
+		});
+	});
+
+	it("should send the full array for keys listed in replaceKeys", () => {
+		const next = base();
+		next.series[0].data = [7, 8];
+
+		expect(diffOption(base(), next, ["series"])?.option.series).toEqual(
+			next.series,
+		);
+	});
+});
+
+describe("createOptionUpdater", () => {
+	it("should use notMerge by default", () => {
+		const updater = createOptionUpdater();
+
+		expect(updater.resolve(base())?.opts.notMerge).toBe(true);
+		expect(updater.resolve(base(), { notMerge: false })?.opts.notMerge).toBe(
+			false,
+		);
+	});
+
+	it("should write the full option first and patches afterwards in diff mode", () => {
+		const updater = createOptionUpdater();
+		const option = base();
+
+		const first = updater.resolve(option, { diff: true });
+		expect(first?.option).toBe(option);
+		expect(first?.opts.notMerge).toBe(true);
+
+		// 原地修改也能被识别
+		option.series[0].data = [9, 9];
+		const second = updater.resolve(option, { diff: true });
+		expect(second?.option).toEqual({
+			series: [{ type: "bar", data: [9, 9] }, {}],
+		});
+		expect(second?.opts.notMerge).toBeUndefined();
+
+		expect(updater.resolve(option, { diff: true })).toBeNull();
+	});
+
+	it("should write the full option again after reset", () => {
+		const updater = createOptionUpdater();
+		updater.resolve(base(), { diff: true });
+		updater.reset();
+
+		expect(updater.resolve(base(), { diff: true })?.opts.notMerge).toBe(true);
+	});
+
+	it("should merge user replaceMerge with computed keys", () => {
+		const updater = createOptionUpdater();
+		updater.resolve(base(), { diff: true });
+		const next = base();
+		next.series.pop();
+
+		expect(
+			updater.resolve(next, { diff: true, replaceMerge: "xAxis" })?.opts
+				.replaceMerge,
+		).toEqual(["series", "xAxis"]);
+	});
+});
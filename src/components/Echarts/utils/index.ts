@@ -0,0 +1,38 @@
+/**
+ * 不限结构的配置对象，用于遍历与改写 ECharts 配置
+ */
+export type AnyOption = Record<string, any>;
+
+/**
+ * 将单个值或数组统一为数组，空值视为空数组
+ */
+export function toArray<T>(value: T | T[] | undefined | null): T[] {
+	if (value === undefined || value === null) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * 将数值限制在 min 与 max 之间
+ */
+export function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * 取数据项的值：`{ value: 10 }` 取 value，其余数据项原样返回
+ */
+export function itemValue(item: unknown): unknown {
+	return item !== null && typeof item === "object" && !Array.isArray(item)
+		? (item as AnyOption).value
+		: item;
+}
+
+/**
+ * 是否为开发环境
+ * @description 由使用方的构建工具替换 `process.env.NODE_ENV`，库自身构建时不做判断
+ */
+export function isDevelopment(): boolean {
+	return (
+		typeof process !== "undefined" && process.env.NODE_ENV !== "production"
+	);
+}
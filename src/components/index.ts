@@ -1 +1,2 @@
 export * from "./Echarts";
+export * from "./Dashboard";
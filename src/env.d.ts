@@ -0,0 +1,5 @@
+declare const process: {
+	env: {
+		NODE_ENV?: string;
+	};
+};
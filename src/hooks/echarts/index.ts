@@ -0,0 +1,2 @@
+export { useEcharts } from "./useEcharts"
+export type { UseEchartsOptions, UseEchartsResult } from "./useEcharts"
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { effectScope, nextTick, ref } from "vue"
+import type { UseEchartsResult } from "../index"
+import { useEcharts } from "../index"
+import { registerGeoMap } from "../../../components/Echarts/geo"
+import { mockChartContainer, mountUseEcharts } from "../../../components/Echarts/tests/setup"
+
+const barOption = (data: number[]) => ({
+  xAxis: { type: "category" as const, data: ["a", "b"] },
+  yAxis: {},
+  series: [{ type: "bar" as const, data }],
+})
+
+describe("useEcharts", () => {
+  beforeEach(() => {
+    mockChartContainer()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it("should create the instance after mount and write the option", async () => {
+    const option = ref(barOption([1, 2]))
+    const { chart, wrapper } = mountUseEcharts(option)
+    await nextTick()
+
+    expect(chart.instance.value).toBeTruthy()
+    expect((chart.instance.value?.getOption() as any).series[0].data).toEqual([1, 2])
+    wrapper.unmount()
+  })
+
+  it("should update on replacement and in-place mutation", async () => {
+    const option = ref(barOption([1, 2]))
+    const { chart, wrapper } = mountUseEcharts(option)
+    await nextTick()
+    const onDraw = vi.fn()
+    chart.onDraw(onDraw)
+
+    option.value = barOption([3, 4])
+    await nextTick()
+    expect((chart.instance.value?.getOption() as any).series[0].data).toEqual([3, 4])
+
+    option.value.series[0].data[0] = 5
+    await nextTick()
+    expect((chart.instance.value?.getOption() as any).series[0].data).toEqual([5, 4])
+    expect(onDraw).toHaveBeenCalledTimes(2)
+    wrapper.unmount()
+  })
+
+  it("should wait for init when immediate is false", async () => {
+    const { chart, wrapper } = mountUseEcharts(ref(barOption([1, 2])), { immediate: false })
+    await nextTick()
+    expect(chart.instance.value).toBeUndefined()
+
+    chart.init()
+    expect(chart.instance.value).toBeTruthy()
+    wrapper.unmount()
+  })
+
+  it("should rebind event hooks when the theme recreates the instance", async () => {
+    const theme = ref<"light" | "dark">("light")
+    const { chart, wrapper } = mountUseEcharts(ref(barOption([1, 2])), { theme })
+    await nextTick()
+    const handler = vi.fn()
+    const onInit = vi.fn()
+    chart.on("highlight", handler)
+    chart.onInit(onInit)
+    const first = chart.instance.value
+
+    theme.value = "dark"
+    await nextTick()
+    expect(chart.instance.value).not.toBe(first)
+    expect(first?.isDisposed()).toBe(true)
+    expect(onInit).toHaveBeenCalledWith(chart.instance.value)
+
+    chart.instance.value?.dispatchAction({ type: "highlight", seriesIndex: 0, dataIndex: 0 })
+    expect(handler).toHaveBeenCalledTimes(1)
+    wrapper.unmount()
+  })
+
+  it("should stop listening after off", async () => {
+    const { chart, wrapper } = mountUseEcharts(ref(barOption([1, 2])))
+    await nextTick()
+    const handler = vi.fn()
+    const off = chart.on("highlight", handler)
+
+    off()
+    chart.instance.value?.dispatchAction({ type: "highlight", seriesIndex: 0, dataIndex: 0 })
+    expect(handler).not.toHaveBeenCalled()
+    wrapper.unmount()
+  })
+
+  it("should toggle loading with loadingOptions", async () => {
+    const loading = ref(false)
+    const { chart, wrapper } = mountUseEcharts(ref(barOption([1, 2])), {
+      loading,
+      loadingOptions: { text: "加载中" },
+    })
+    await nextTick()
+    const instance = chart.instance.value
+    if (!instance) throw new Error("instance not created")
+    const showLoading = vi.spyOn(instance, "showLoading")
+
+    loading.value = true
+    await nextTick()
+    expect(showLoading).toHaveBeenCalledWith("default", expect.objectContaining({ text: "加载中" }))
+    wrapper.unmount()
+  })
+
+  it("should report setOption errors and recover on the next write", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    // 缺少坐标轴的柱状图会在 setOption 时抛出异常
+    const option = ref<any>({ series: [{ type: "bar", data: [1, 2] }] })
+    const onError = vi.fn()
+    const { chart, wrapper } = mountUseEcharts(option)
+    chart.onError(onError)
+    await nextTick()
+
+    expect(chart.error.value).toBeInstanceOf(Error)
+    expect(onError).toHaveBeenCalledWith(chart.error.value)
+
+    option.value = barOption([1, 2])
+    await nextTick()
+    expect(chart.error.value).toBeUndefined()
+    expect((chart.instance.value?.getOption() as any).series[0].data).toEqual([1, 2])
+    wrapper.unmount()
+  })
+
+  it("should wait for lazily registered maps before drawing", async () => {
+    let resolve!: (value: any) => void
+    registerGeoMap(
+      "lazy-square",
+      () =>
+        new Promise((r) => {
+          resolve = r
+        }),
+    )
+    const { chart, wrapper } = mountUseEcharts(ref({ series: [{ type: "map", map: "lazy-square" }] }))
+    await nextTick()
+    expect((chart.instance.value?.getOption() as any)?.series).toBeUndefined()
+
+    resolve({
+      type: "FeatureCollection",
+      features: [
+        {
+          type: "Feature",
+          properties: { name: "A" },
+          geometry: { type: "Polygon", coordinates: [[[0, 0], [0, 1], [1, 1], [0, 0]]] },
+        },
+      ],
+    })
+    await vi.waitFor(() => {
+      expect((chart.instance.value?.getOption() as any).series[0].map).toBe("lazy-square")
+    })
+    wrapper.unmount()
+  })
+
+  it("should apply responsive rules on init and after resize", async () => {
+    let notify!: () => void
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        constructor(callback: () => void) {
+          notify = callback
+        }
+        observe() {}
+        disconnect() {}
+      },
+    )
+    vi.useFakeTimers()
+    const width = vi.spyOn(HTMLElement.prototype, "clientWidth", "get").mockReturnValue(300)
+    const { chart, wrapper } = mountUseEcharts(ref({ ...barOption([1, 2]), legend: { show: true } }), {
+      responsive: [{ maxWidth: 400, option: { legend: { show: false } } }],
+    })
+    await nextTick()
+    expect((chart.instance.value?.getOption() as any).legend[0].show).toBe(false)
+
+    width.mockReturnValue(800)
+    notify()
+    await vi.advanceTimersByTimeAsync(300)
+    expect((chart.instance.value?.getOption() as any).legend[0].show).toBe(true)
+    wrapper.unmount()
+  })
+
+  it("should dispose the instance on unmount", async () => {
+    const { chart, wrapper } = mountUseEcharts(ref(barOption([1, 2])))
+    await nextTick()
+    const instance = chart.instance.value
+
+    wrapper.unmount()
+    expect(instance?.isDisposed()).toBe(true)
+    expect(chart.instance.value).toBeUndefined()
+  })
+
+  it("should follow the system color scheme outside components", async () => {
+    const listeners: ((event: { matches: boolean }) => void)[] = []
+    const query = {
+      matches: false,
+      addEventListener: (_: string, listener: (event: { matches: boolean }) => void) =>
+        listeners.push(listener),
+      removeEventListener: vi.fn(),
+    }
+    vi.stubGlobal("matchMedia", vi.fn(() => query))
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const scope = effectScope()
+    const el = document.createElement("div")
+    let chart!: UseEchartsResult
+    scope.run(() => {
+      chart = useEcharts(el, ref(barOption([1, 2])), { renderer: "svg", theme: "auto" })
+    })
+    await nextTick()
+    const instance = chart.instance.value
+    expect(instance).toBeTruthy()
+
+    query.matches = true
+    for (const listener of listeners) listener({ matches: true })
+    await nextTick()
+    expect(chart.instance.value).not.toBe(instance)
+    expect(instance?.isDisposed()).toBe(true)
+    expect(warn).not.toHaveBeenCalled()
+
+    scope.stop()
+    expect(query.removeEventListener).toHaveBeenCalled()
+  })
+})
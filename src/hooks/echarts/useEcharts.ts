@@ -0,0 +1,471 @@
+import type { EventHookOn } from "@vueuse/core"
+import type { EChartsType, SetOptionOpts } from "echarts/core"
+import type { ComputedRef, MaybeRefOrGetter, ShallowRef } from "vue"
+import type { ECOption } from "../../components/Echarts/config"
+import type { EchartsEventName } from "../../components/Echarts/events"
+import type { EchartsResponsiveRule } from "../../components/Echarts/responsive"
+import type { EchartsLoadingOptions } from "../../components/Echarts/state"
+import type { EchartsTheme } from "../../components/Echarts/theme"
+import type { EchartsUpdateOptions } from "../../components/Echarts/update"
+import {
+  createEventHook,
+  tryOnMounted,
+  tryOnScopeDispose,
+  useDebounceFn,
+  usePreferredDark,
+  useResizeObserver,
+} from "@vueuse/core"
+import {
+  computed,
+  getCurrentInstance,
+  inject,
+  markRaw,
+  nextTick,
+  onActivated,
+  onBeforeUnmount,
+  onDeactivated,
+  shallowRef,
+  toValue,
+  watch,
+  watchSyncEffect,
+} from "vue"
+import {
+  echarts,
+  resolveEchartsLocale,
+  warnUnregisteredTypes,
+} from "../../components/Echarts/config"
+import { bindEvent } from "../../components/Echarts/events"
+import { getPendingGeoMaps, loadGeoMap } from "../../components/Echarts/geo"
+import { CHART_GROUP_KEY, joinGroup, leaveGroup } from "../../components/Echarts/group"
+import { CHART_RESIZE_KEY } from "../../components/Echarts/resize"
+import { applyResponsive, matchRules } from "../../components/Echarts/responsive"
+import { captureViewState, resolveTheme, restoreViewState } from "../../components/Echarts/theme"
+import { createOptionUpdater } from "../../components/Echarts/update"
+
+/**
+ * useEcharts 配置项
+ */
+export interface UseEchartsOptions {
+  /**
+   * 渲染器，在创建实例时读取，默认 canvas
+   */
+  renderer?: MaybeRefOrGetter<"canvas" | "svg">
+
+  /**
+   * 主题，切换后会重建实例并保留图例选中与缩放状态
+   */
+  theme?: MaybeRefOrGetter<EchartsTheme | undefined>
+
+  /**
+   * 语言区域，例如 `zh-CN`、`en-US`，用于选择 ECharts 语言包，切换后与主题一样重建实例
+   */
+  locale?: MaybeRefOrGetter<string | undefined>
+
+  /**
+   * 是否跟随容器尺寸自动调整，默认 true
+   */
+  autoResize?: MaybeRefOrGetter<boolean>
+
+  /**
+   * 是否显示加载动画
+   */
+  loading?: MaybeRefOrGetter<boolean | undefined>
+
+  /**
+   * 内置加载动画的配置
+   */
+  loadingOptions?: MaybeRefOrGetter<EchartsLoadingOptions | undefined>
+
+  /**
+   * 联动分组名，未设置时使用 useChartGroup 注入的分组
+   */
+  group?: MaybeRefOrGetter<string | undefined>
+
+  /**
+   * 配置更新策略
+   */
+  updateOptions?: MaybeRefOrGetter<EchartsUpdateOptions | undefined>
+
+  /**
+   * 按容器尺寸合并到配置上的规则，在创建实例与每次防抖后的尺寸变化时重新匹配
+   */
+  responsive?: MaybeRefOrGetter<EchartsResponsiveRule[] | undefined>
+
+  /**
+   * 是否在挂载后立即创建实例，默认 true；关闭后需要手动调用 init
+   */
+  immediate?: boolean
+
+  /**
+   * 图表是否处于活跃状态，默认 true；非活跃时暂停动画，尺寸调整推迟到重新活跃后
+   */
+  active?: MaybeRefOrGetter<boolean>
+}
+
+/**
+ * useEcharts 返回值
+ */
+export interface UseEchartsResult {
+  /**
+   * 图表实例，未创建或已销毁时为 undefined
+   */
+  instance: ShallowRef<EChartsType | undefined>
+
+  /**
+   * 解析后的主题名，默认主题为 null
+   */
+  theme: ComputedRef<string | null>
+
+  /**
+   * 最近一次写入配置时抛出的异常，写入成功后清空
+   */
+  error: ShallowRef<unknown>
+
+  /**
+   * 创建实例并写入当前配置，已有实例时会先销毁
+   */
+  init: () => void
+
+  /**
+   * 销毁实例
+   */
+  dispose: () => void
+
+  /**
+   * 按更新策略重新写入当前配置
+   */
+  draw: () => void
+
+  /**
+   * 直接调用实例的 setOption
+   */
+  setOption: (option: ECOption, opts?: SetOptionOpts) => void
+
+  /**
+   * 调整图表尺寸
+   */
+  resize: () => void
+
+  /**
+   * 监听图表事件，实例重建后自动重新绑定
+   * @returns 取消监听的函数
+   */
+  on: (event: EchartsEventName, handler: (params: any) => void) => () => void
+
+  /**
+   * 实例创建后触发
+   */
+  onInit: EventHookOn<EChartsType>
+
+  /**
+   * 每次写入配置后触发
+   */
+  onDraw: EventHookOn<EChartsType>
+
+  /**
+   * 实例调整尺寸后触发
+   */
+  onResize: EventHookOn<EChartsType>
+
+  /**
+   * 写入配置抛出异常时触发
+   */
+  onError: EventHookOn<unknown>
+}
+
+interface Listener {
+  event: EchartsEventName
+  handler: (params: any) => void
+}
+
+/**
+ * 无界面的 ECharts Hook
+ * @description 提供与 Echarts 组件一致的生命周期：挂载后创建实例、配置变化时更新、
+ * 主题切换时重建、容器尺寸变化时防抖调整、keep-alive 激活时重新调整、卸载前销毁
+ * @param target - 图表容器元素
+ * @param option - 图表配置，整体替换与原地修改都会触发更新
+ * @param options - 配置项
+ * @returns 图表实例与操作方法
+ * @example
+ * ```ts
+ * const el = ref<HTMLDivElement>()
+ * const option = ref<ECOption>({ series: [{ type: "bar", data: [1, 2, 3] }] })
+ * const { instance, on } = useEcharts(el, option, { theme: "auto" })
+ *
+ * on("click", (params) => console.log(params.name))
+ * ```
+ */
+export const useEcharts = (
+  target: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  option: MaybeRefOrGetter<ECOption | undefined>,
+  options: UseEchartsOptions = {},
+): UseEchartsResult => {
+  const {
+    renderer = "canvas",
+    theme,
+    locale,
+    autoResize = true,
+    loading,
+    loadingOptions,
+    group,
+    updateOptions,
+    responsive,
+    immediate = true,
+    active = true,
+  } = options
+
+  const instance = shallowRef<EChartsType>()
+  const error = shallowRef<unknown>()
+  const updater = createOptionUpdater()
+  const listeners = new Set<Listener>()
+  const unbinders = new Map<Listener, () => void>()
+  const initHook = createEventHook<EChartsType>()
+  const drawHook = createEventHook<EChartsType>()
+  const resizeHook = createEventHook<EChartsType>()
+  const errorHook = createEventHook<unknown>()
+  const hasComponent = !!getCurrentInstance()
+  let pendingResize = false
+  // 命中的响应式规则下标，只在命中结果变化时重新绘制
+  const matchedRules = shallowRef<number[]>([])
+  // setOption 抛出异常后实例内部状态不可用，下次写入前需要重建
+  let broken = false
+
+  // 基于 tryOnScopeDispose 清理，组件外的 effectScope 中同样可以跟随系统配色
+  const prefersDark = usePreferredDark()
+  const injectedGroup = hasComponent ? inject(CHART_GROUP_KEY, undefined) : undefined
+  const chartGroup = computed(() => toValue(group) ?? injectedGroup?.value)
+  const chartTheme = computed(() => resolveTheme(toValue(theme), prefersDark.value))
+  const chartLocale = computed(() => resolveEchartsLocale(toValue(locale)))
+
+  const syncGroup = () => {
+    if (!instance.value) return
+    chartGroup.value ? joinGroup(instance.value, chartGroup.value) : leaveGroup(instance.value)
+  }
+
+  const resolvedOption = computed(() => {
+    const current = toValue(option)
+    return current && applyResponsive(current, toValue(responsive), matchedRules.value)
+  })
+
+  const matchResponsive = () => {
+    const el = toValue(target)
+    if (!el) return
+    const matched = matchRules(toValue(responsive), {
+      width: el.clientWidth,
+      height: el.clientHeight,
+    })
+    if (matched.join() !== matchedRules.value.join()) {
+      matchedRules.value = matched
+    }
+  }
+
+  const fail = (e: unknown) => {
+    error.value = e
+    errorHook.trigger(e)
+  }
+
+  const draw = () => {
+    const chart = instance.value
+    const current = resolvedOption.value
+    if (!chart || !current) return
+    if (broken) {
+      broken = false
+      init()
+      return
+    }
+    // 引用的地图尚未加载时，加载完成后再绘制最新的配置
+    const maps = getPendingGeoMaps(current)
+    if (maps.length) {
+      Promise.all(maps.map(loadGeoMap)).then(draw, fail)
+      return
+    }
+    warnUnregisteredTypes(current)
+    try {
+      const update = updater.resolve(current, toValue(updateOptions))
+      if (update) {
+        chart.setOption(update.option, update.opts)
+      }
+    } catch (e) {
+      broken = true
+      fail(e)
+      return
+    }
+    error.value = undefined
+    drawHook.trigger(chart)
+  }
+
+  const setOption = (value: ECOption, opts?: SetOptionOpts) => {
+    instance.value?.setOption(value, opts)
+  }
+
+  const dispose = () => {
+    for (const unbind of unbinders.values()) unbind()
+    unbinders.clear()
+    if (instance.value) {
+      leaveGroup(instance.value)
+      instance.value.dispose()
+      instance.value = undefined
+    }
+  }
+
+  const init = () => {
+    const el = toValue(target)
+    if (!el) return
+    if (instance.value) {
+      dispose()
+    }
+
+    instance.value = echarts.getInstanceByDom(el)
+
+    if (!instance.value) {
+      matchResponsive()
+      const chart = markRaw(
+        echarts.init(el, chartTheme.value, {
+          renderer: toValue(renderer),
+          locale: chartLocale.value,
+        }),
+      )
+      instance.value = chart
+      for (const listener of listeners) {
+        unbinders.set(listener, bindEvent(chart, listener.event, listener.handler))
+      }
+      syncGroup()
+      updater.reset()
+      initHook.trigger(chart)
+      draw()
+    }
+  }
+
+  const resize = () => {
+    // 非活跃时只记录待处理的尺寸变化，重新活跃后再调整
+    if (!toValue(active)) {
+      pendingResize = true
+      return
+    }
+    if (!instance.value) return
+    instance.value.resize({ animation: { duration: 300 } })
+    resizeHook.trigger(instance.value)
+  }
+
+  const on = (event: EchartsEventName, handler: (params: any) => void) => {
+    const listener: Listener = { event, handler }
+    listeners.add(listener)
+    if (instance.value) {
+      unbinders.set(listener, bindEvent(instance.value, event, handler))
+    }
+    const off = () => {
+      listeners.delete(listener)
+      unbinders.get(listener)?.()
+      unbinders.delete(listener)
+    }
+    tryOnScopeDispose(off)
+    return off
+  }
+
+  const debouncedResize = useDebounceFn(
+    () => {
+      if (!toValue(autoResize)) return
+      matchResponsive()
+      resize()
+    },
+    300,
+    { maxWait: 800 },
+  )
+
+  useResizeObserver(() => toValue(target), debouncedResize)
+
+  // 父组件主动通知尺寸变化时立即调整，不等待防抖
+  const resizeNotifier = hasComponent ? inject(CHART_RESIZE_KEY, undefined) : undefined
+  if (resizeNotifier) {
+    tryOnScopeDispose(
+      resizeNotifier.onResize(() => {
+        if (!toValue(autoResize)) return
+        matchResponsive()
+        resize()
+      }),
+    )
+  }
+
+  // 同时响应整体替换与原地修改
+  watch(resolvedOption, draw, { deep: true })
+  watch(() => toValue(responsive), matchResponsive, { deep: true })
+
+  // 主题与语言包只能在创建实例时设置
+  watch([chartTheme, chartLocale], () => {
+    if (instance.value) {
+      // 重建实例会丢失图例选中与缩放状态，需要在重建后恢复
+      const viewState = captureViewState(instance.value)
+      init()
+      if (instance.value) {
+        restoreViewState(instance.value, viewState)
+      }
+    }
+  })
+
+  watch(chartGroup, syncGroup)
+
+  watch(
+    () => toValue(active),
+    (value) => {
+      const zr = instance.value?.getZr()
+      if (!zr) return
+      if (value) {
+        zr.animation.resume()
+        if (pendingResize) {
+          pendingResize = false
+          resize()
+        }
+      } else {
+        zr.animation.pause()
+      }
+    },
+  )
+
+  watchSyncEffect(() => {
+    if (!instance.value) return
+    if (toValue(loading)) {
+      // echarts 会把默认值写回传入的对象，这里传入副本
+      instance.value.showLoading("default", { ...toValue(loadingOptions) })
+    } else {
+      instance.value.hideLoading()
+    }
+  })
+
+  if (immediate) {
+    tryOnMounted(() => nextTick(init))
+  }
+
+  if (hasComponent) {
+    onActivated(() => {
+      if (instance.value) {
+        syncGroup()
+        instance.value.resize()
+        resizeHook.trigger(instance.value)
+      }
+    })
+    onDeactivated(() => {
+      if (instance.value) {
+        leaveGroup(instance.value)
+      }
+    })
+    onBeforeUnmount(dispose)
+  } else {
+    tryOnScopeDispose(dispose)
+  }
+
+  return {
+    instance,
+    theme: chartTheme,
+    error,
+    init,
+    dispose,
+    draw,
+    setOption,
+    resize,
+    on,
+    onInit: initHook.on,
+    onDraw: drawHook.on,
+    onResize: resizeHook.on,
+    onError: errorHook.on,
+  }
+}
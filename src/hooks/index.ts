@@ -1,4 +1,6 @@
 export { useResettableRef, useResettableReactive } from "./resettable";
 export { useScroll, useMatchMedia } from "./dom";
 export { useTimeSlice } from "./timeSlice";
-export { useDebounce, useThrottle } from "./fn";
\ No newline at end of file
+export { useDebounce, useThrottle } from "./fn";
+export { useEcharts } from "./echarts";
+export type { UseEchartsOptions, UseEchartsResult } from "./echarts";